@@ -0,0 +1,194 @@
+import fs from "fs";
+import { parseArgs } from "util";
+import { DEFAULT_AUDIT_LOG_PATH, readAuditEntries, type AuditEntry } from "./services/audit-log";
+import { parsePositiveInt } from "./utils/common";
+import { DEFAULT_LANGUAGE, findLanguage, LANGUAGES } from "./utils/languages";
+import { findTarget, getTargetIds } from "./utils/targets";
+
+const includesRow = (entry: AuditEntry, row: number): boolean => {
+  return entry.outcome.status !== 'failed' && entry.outcome.answeredIds.includes(row);
+};
+
+const describeOutcome = (entry: AuditEntry): string => {
+  const { outcome } = entry;
+  if (outcome.status === 'failed') {
+    return `failed: ${outcome.error}`;
+  }
+  // Missing rows are among the parser's issues
+  const details = [`${outcome.answeredIds.length}/${entry.rowIds.length} rows answered`, ...outcome.issues];
+  return `${outcome.status} (${details.join('; ')})`;
+};
+
+const printEntry = (entry: AuditEntry, original?: AuditEntry) => {
+  const step = entry.sample ? `${entry.step} (sample ${entry.sample})` : entry.step;
+  console.log(`\n${"=".repeat(80)}`);
+  console.log(`🧾 ${step} · ${entry.label}`);
+  console.log(`   Run: ${entry.runId} (${entry.command}) at ${entry.timestamp}`);
+  console.log(`   Model: ${entry.model} (${entry.provider} ${entry.modelId})`);
+  console.log(`   Source: ${entry.source}${entry.latencyMs !== undefined ? ` · Latency: ${entry.latencyMs} ms` : ''}`);
+  if (entry.usage) {
+    console.log(`   Tokens: ${entry.usage.inputTokens} in / ${entry.usage.outputTokens} out${entry.finishReason ? ` · Finish reason: ${entry.finishReason}` : ''}`);
+  }
+  console.log(`   Outcome: ${describeOutcome(entry)}`);
+  console.log(`   Rows: ${entry.rowIds.join(', ')}`);
+  if (entry.source === 'cache') {
+    console.log(original
+      ? `   Cached answer of run ${original.runId} at ${original.timestamp}`
+      : `   Cached answer of a call that is not in this log`);
+  }
+  console.log(`\n--- Prompt ---\n${entry.prompt}`);
+  console.log(`\n--- Response ---\n${entry.response ?? '(none)'}`);
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      model: {
+        type: 'string',
+        short: 'm'
+      },
+      target: {
+        type: 'string',
+        short: 't'
+      },
+      split: {
+        type: 'string',
+        short: 's',
+        default: 'test'
+      },
+      row: {
+        type: 'string',
+        short: 'r'
+      },
+      language: {
+        type: 'string',
+        default: DEFAULT_LANGUAGE
+      },
+      variant: {
+        type: 'string'
+      },
+      step: {
+        type: 'string'
+      },
+      run: {
+        type: 'string'
+      },
+      all: {
+        type: 'boolean',
+        short: 'a'
+      },
+      log: {
+        type: 'string',
+        short: 'l',
+        default: DEFAULT_AUDIT_LOG_PATH
+      },
+      help: {
+        type: 'boolean',
+        short: 'h'
+      }
+    }
+  });
+
+  if (values.help) {
+    console.log(`
+Usage: bun run audit -- -m <model> -t <target> -r <row> [options]
+
+Shows the prompt and response that produced a row of a processed file.
+
+Options:
+  -m, --model <model>     Model the file was processed with (its id, e.g. gpt-5)
+  -t, --target <target>   Target of the file
+  -s, --split <split>     Split of the file (train, test)
+                          Default: test
+  -r, --row <num>         Row number in the processed file
+  --language <name>       Language of the file (${Object.keys(LANGUAGES).join(', ')})
+                          Default: ${DEFAULT_LANGUAGE}
+  --variant <name>        Prompt variant of the file (processed-...@<name>.xlsx)
+  --step <task>           Only calls of this task (explain, classify)
+  --run <id>              Only calls of this run
+  -a, --all               Every call the row was sent in, including failed and
+                          incomplete ones, instead of the latest answer per task
+  -l, --log <file>        Audit log to search
+                          Default: ${DEFAULT_AUDIT_LOG_PATH}
+  -h, --help              Show this help message
+
+Examples:
+  bun run audit -- -m gpt-5 -t lula -r 42
+  bun run audit -- -m gpt-5 -t lula -s train -r 42 --step classify --all
+`);
+    process.exit(0);
+  }
+
+  const model = values.model as string | undefined;
+  const target = values.target as string | undefined;
+  const split = values.split as string;
+  const row = parsePositiveInt(values.row as string | undefined, 'row');
+  const logPath = values.log as string;
+
+  if (!model || !target || row === undefined) {
+    console.error(`❌ --model, --target and --row are required`);
+    process.exit(1);
+  }
+  if (!findTarget(target)) {
+    console.error(`❌ Invalid target: ${target}`);
+    console.log(`Valid targets: ${getTargetIds().join(', ')} (see config/targets.json)`);
+    process.exit(1);
+  }
+  if (split !== 'train' && split !== 'test') {
+    console.error(`❌ Invalid split: ${split} (expected train or test)`);
+    process.exit(1);
+  }
+  const language = findLanguage(values.language as string);
+  if (!language) {
+    console.error(`❌ Invalid language: ${values.language}`);
+    console.log(`Valid languages: ${Object.keys(LANGUAGES).join(', ')}`);
+    process.exit(1);
+  }
+  if (!fs.existsSync(logPath)) {
+    console.error(`❌ Audit log not found: ${logPath}`);
+    process.exit(1);
+  }
+
+  // Calls of every run are read, to trace cached answers back to the call that made them
+  const calls = await readAuditEntries(logPath, entry =>
+    entry.model === model
+    && entry.target === target
+    && entry.split === split
+    // Runs before languages could be chosen were all in the default one
+    && (entry.language ?? DEFAULT_LANGUAGE) === language.name
+    && entry.variant === values.variant
+    && entry.rowIds.includes(row)
+    && (!values.step || entry.step === values.step)
+  );
+  const matching = calls.filter(entry => !values.run || entry.runId === values.run);
+
+  if (matching.length === 0) {
+    console.error(`❌ No call in ${logPath} included row ${row} of ${model} ${target} ${split}`);
+    process.exit(1);
+  }
+
+  const findOriginal = (entry: AuditEntry) => calls.slice(0, calls.indexOf(entry)).findLast(call =>
+    call.source !== 'cache' && call.prompt === entry.prompt && call.modelId === entry.modelId && includesRow(call, row)
+  );
+
+  if (values.all) {
+    console.log(`🔍 ${matching.length} call(s) included row ${row} of ${model} ${target} ${split}`);
+    matching.forEach(entry => printEntry(entry, entry.source === 'cache' ? findOriginal(entry) : undefined));
+    return;
+  }
+
+  // The answer written to the file is the latest one per task and sample
+  const steps = [...new Set(matching.map(entry => `${entry.step}/${entry.sample ?? 1}`))];
+  for (const step of steps) {
+    const stepCalls = matching.filter(entry => `${entry.step}/${entry.sample ?? 1}` === step);
+    const answer = stepCalls.findLast(entry => includesRow(entry, row));
+    if (!answer) {
+      console.log(`\n⚠️ Row ${row} was never answered in ${step.split('/')[0]}; latest of ${stepCalls.length} call(s):`);
+    }
+    const entry = answer ?? stepCalls[stepCalls.length - 1];
+    printEntry(entry, entry.source === 'cache' ? findOriginal(entry) : undefined);
+  }
+};
+
+main().catch(console.error);
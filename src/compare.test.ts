@@ -0,0 +1,84 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import ExcelJS from "exceljs";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+let datasetDir: string;
+
+// Rows 2 to 5 are for, against, for, against
+const writeProcessedFile = async (variant: string, llmLabels: Array<string | null>) => {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet();
+  worksheet.addRow(["text", "id", "label", "llm_label", "llm_label_explanation"]);
+  llmLabels.forEach((llmLabel, index) => {
+    worksheet.addRow([`texto ${index + 2}`, index + 2, index % 2 ? "against" : "for", llmLabel, llmLabel && "Explicação."]);
+  });
+  await workbook.xlsx.writeFile(path.join(datasetDir, `processed-mock-lula-test-pt@${variant}.xlsx`));
+};
+
+// compare reads its arguments at import, so it runs in a process of its own
+const runCompare = (args: string[]) => {
+  const result = Bun.spawnSync({
+    cmd: [process.execPath, "src/compare.ts", "-m", "mock", "-t", "lula", "--dataset-dir", datasetDir, "-o", path.join(datasetDir, "report.xlsx"), ...args],
+    stdout: "pipe",
+    stderr: "pipe",
+    timeout: 60_000
+  });
+  return { exitCode: result.exitCode, stdout: result.stdout.toString() };
+};
+
+const span = (quote: string, status: string) => JSON.stringify([{ quote, start: 0, end: quote.length, status }]);
+
+// Without a variant; the explanations quote evidence, row 3 has no LLM label
+const writeEvidenceFile = async () => {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet();
+  worksheet.addRow(["text", "id", "label", "llm_label", "llm_label_evidence", "human_label_evidence", "human_label_evidence_en"]);
+  worksheet.addRow(["texto 2", 2, "for", "for", span("texto", "verified"), span("texto", "verified"), null]);
+  worksheet.addRow(["texto 3", 3, "against", null, null, span("odeio", "hallucinated"), span("ódio", "hallucinated")]);
+  await workbook.xlsx.writeFile(path.join(datasetDir, "processed-mock-lula-test-pt.xlsx"));
+};
+
+beforeAll(async () => {
+  datasetDir = fs.mkdtempSync(path.join(os.tmpdir(), "compare-"));
+  // v1 gets row 5 wrong
+  await writeProcessedFile("v1", ["for", "against", "for", "for"]);
+  // v2 gets row 2 wrong and leaves row 5 unanswered
+  await writeProcessedFile("v2", ["against", "against", "for", null]);
+  await writeEvidenceFile();
+});
+
+afterAll(() => {
+  fs.rmSync(datasetDir, { recursive: true, force: true });
+});
+
+describe("compare", () => {
+  test("scores each file on the rows it answered", () => {
+    const { exitCode, stdout } = runCompare(["--variant", "v1", "--variant", "v2"]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Overall Accuracy: 75.00% (3/4)");
+    expect(stdout).toContain("Overall Accuracy: 66.67% (2/3)");
+  });
+
+  test("compares variants only on the rows every variant answered", async () => {
+    const { stdout } = runCompare(["--variant", "v1", "--variant", "v2", "--compare"]);
+    // Row 5, which only v1 answered (wrongly), is left out
+    expect(stdout).toContain("100.0% / 66.7%");
+    expect(stdout).toContain("compared on the 3 rows every variant answered, 1 rows left out");
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.readFile(path.join(datasetDir, "report-variants.xlsx"));
+    const summary = workbook.getWorksheet("Variant Comparison")!;
+    const headers = summary.getRow(1).values as string[];
+    const row = summary.getRow(2);
+    expect(row.getCell(headers.indexOf("Rows Compared")).value).toBe(3);
+    expect(row.getCell(headers.indexOf("Rows Dropped")).value).toBe(1);
+    expect(row.getCell(headers.indexOf("Disagreements")).value).toBe(1);
+  });
+
+  test("counts the evidence of every explanation column, rows without an LLM label included", () => {
+    const { stdout } = runCompare([]);
+    expect(stdout).toContain("Hallucinated quotes: 50.00% (2/4)");
+  });
+});
@@ -2,13 +2,88 @@ import ExcelJS from "exceljs";
 import fs from "fs";
 import path from "path";
 import { parseArgs } from "util";
+import { DEFAULT_LABEL_SET, getLabelNames, getLabelSet, LABEL_SETS } from "./utils/label-sets";
+import {
+  findModelConfig,
+  formatModelVariant,
+  getModelDirectory,
+  getProcessedFileNames,
+  loadModelRegistry,
+  type ModelConfig
+} from "./utils/models";
+import { DEFAULT_LANGUAGE, findLanguage, LANGUAGES } from "./utils/languages";
+import { findTarget, getTargetIds } from "./utils/targets";
+import { parseEvidenceCell, type EvidenceSpan } from "./tasks/evidence";
+import { DEFAULT_DATASET_DIR } from "./utils/common";
+import { getHeaderColumns } from "./services/excel";
+
+// A model, or one prompt variant of it; analyzed and compared like a model of its own
+interface ModelRun {
+  config: ModelConfig;
+  variant?: string;
+  // "GPT-5", "GPT-5@v2"
+  name: string;
+}
 
 interface DataRow {
+  // Worksheet row number; the files of one target and split share them
+  rowNumber: number;
   text: string;
   humanLabel: string;
   humanExplanation?: string;
   llmLabel: string;
   llmExplanation?: string;
+  // Share of samples that chose llmLabel, when the file was processed with --samples
+  agreement?: number;
+  // Model-reported probability that llmLabel is correct
+  confidence?: number;
+}
+
+interface ProcessedFile {
+  // Rows with a text, a human label and an LLM label
+  rows: DataRow[];
+  // Quotes of every explanation column, checked against the text when the prompts
+  // asked for them, from every row with a text whether the LLM labeled it or not
+  evidence: EvidenceSpan[];
+}
+
+interface CalibrationBin {
+  lower: number;
+  upper: number;
+  total: number;
+  meanConfidence: number;
+  accuracy: number;
+}
+
+interface ThresholdStats {
+  threshold: number;
+  // Rows at or above the threshold; the rest would go to human review
+  total: number;
+  coverage: number;
+  accuracy: number;
+}
+
+interface CalibrationStats {
+  total: number;
+  // Expected calibration error, as a ratio
+  ece: number;
+  bins: CalibrationBin[];
+  thresholds: ThresholdStats[];
+}
+
+interface EvidenceStats {
+  quotes: number;
+  // Quotes the text doesn't contain
+  hallucinated: number;
+  // Quotes found in the text, but not at the offsets the model gave
+  relocated: number;
+  hallucinationRate: number;
+}
+
+interface AgreementGroupStats {
+  total: number;
+  correct: number;
+  accuracy: number;
 }
 
 interface AccuracyStats {
@@ -21,6 +96,12 @@ interface AccuracyStats {
   f1Score: number;
   labelStats: { [label: string]: { total: number; correct: number; accuracy: number; precision: number; recall: number; f1Score: number } };
   confusionMatrix: { [actualLabel: string]: { [predictedLabel: string]: number } };
+  // Only present when the rows have agreement ratios
+  agreementStats?: { high: AgreementGroupStats; low: AgreementGroupStats };
+  // Only present when the rows have confidences
+  calibration?: CalibrationStats;
+  // Only present when the explanations quote evidence
+  evidence?: EvidenceStats;
 }
 
 interface ComparisonStats {
@@ -29,6 +110,8 @@ interface ComparisonStats {
   target: string;
   dataset: "train" | "test";
   agreementRate: number;
+  // Rows both labeled
+  compared: number;
   disagreements: Array<{
     text: string;
     humanLabel: string;
@@ -39,30 +122,69 @@ interface ComparisonStats {
   }>;
 }
 
-const readProcessedFile = async (filePath: string): Promise<DataRow[]> => {
+// Two prompt variants of one model on the same target and split
+interface VariantComparison {
+  model: string;
+  variant1: string;
+  variant2: string;
+  stats1: AccuracyStats;
+  stats2: AccuracyStats;
+  // Every row the variants disagree on
+  comparison: ComparisonStats;
+  // Rows some variants of the model answered but not all, left out of the comparison
+  dropped: number;
+}
+
+const readRatioCell = (value: ExcelJS.CellValue): number | undefined => {
+  if (value === null || value === undefined || value === "") {
+    return undefined;
+  }
+  const ratio = Number(value);
+  return Number.isFinite(ratio) && ratio >= 0 && ratio <= 1 ? ratio : undefined;
+};
+
+const readProcessedFile = async (filePath: string): Promise<ProcessedFile> => {
   const workbook = new ExcelJS.Workbook();
   await workbook.xlsx.readFile(filePath);
   const worksheet = workbook.getWorksheet(1);
 
   const dataRows: DataRow[] = [];
+  const evidence: EvidenceSpan[] = [];
+  // Task columns are found by header; text and human label come from the source
+  const headerColumns = worksheet ? getHeaderColumns(worksheet) : new Map<string, number>();
+  const readCell = (row: ExcelJS.Row, header: string): ExcelJS.CellValue => {
+    const column = headerColumns.get(header);
+    return column ? row.getCell(column).value : null;
+  };
+  // The LLM label's and those of the human label explanations, in any language
+  const evidenceHeaders = [...headerColumns.keys()]
+    .filter(header => header === 'llm_label_evidence' || header.startsWith('human_label_evidence'));
+
   worksheet?.eachRow((row, rowNumber) => {
     if (rowNumber > 1) {
       const text = row.getCell(1).value?.toString()?.trim() || "";
       const humanLabel = row.getCell(3).value?.toString()?.toLowerCase().trim() || "";
-      const humanExplanation = row.getCell(7).value?.toString()?.trim();
-      const llmLabel = row.getCell(8).value?.toString()?.toLowerCase().trim() || "";
-      const llmExplanation = row.getCell(9).value?.toString()?.trim();
-
+      const humanExplanation = readCell(row, 'human_label_explanation')?.toString()?.trim();
+      const llmLabel = readCell(row, 'llm_label')?.toString()?.toLowerCase().trim() || "";
+      const llmExplanation = readCell(row, 'llm_label_explanation')?.toString()?.trim();
+      const agreement = readRatioCell(readCell(row, 'llm_label_agreement'));
+      const confidence = readRatioCell(readCell(row, 'llm_label_confidence'));
+
+      if (text) {
+        evidenceHeaders.forEach(header => evidence.push(...parseEvidenceCell(readCell(row, header))));
+      }
       if (text && humanLabel && llmLabel) {
-        dataRows.push({ text, humanLabel, humanExplanation, llmLabel, llmExplanation });
+        dataRows.push({ rowNumber, text, humanLabel, humanExplanation, llmLabel, llmExplanation, agreement, confidence });
       }
     }
   });
 
-  return dataRows;
+  return { rows: dataRows, evidence };
 };
 
-const calculateAccuracy = (data: DataRow[]): Omit<AccuracyStats, 'model' | 'target' | 'dataset'> => {
+// Every label of the set gets metrics, even when it never occurs. Predictions
+// outside the set count as errors but are not averaged into the macro F1.
+const calculateAccuracy = (data: DataRow[], labels: string[]): Omit<AccuracyStats, 'model' | 'target' | 'dataset'> => {
   let totalCorrect = 0;
   const labelStats: { [label: string]: { total: number; correct: number; accuracy: number; precision: number; recall: number; f1Score: number } } = {};
   const confusionMatrix: { [actualLabel: string]: { [predictedLabel: string]: number } } = {};
@@ -89,7 +211,7 @@ const calculateAccuracy = (data: DataRow[]): Omit<AccuracyStats, 'model' | 'targ
   }
 
   // Calculate per-label metrics
-  const allLabels = new Set([...Object.keys(labelStats), ...data.map(d => d.llmLabel)]);
+  const allLabels = new Set([...labels, ...Object.keys(labelStats), ...data.map(d => d.llmLabel)]);
 
   for (const label of allLabels) {
     if (!labelStats[label]) {
@@ -131,7 +253,7 @@ const calculateAccuracy = (data: DataRow[]): Omit<AccuracyStats, 'model' | 'targ
   }
 
   // Calculate macro-averaged F1 score
-  const f1Scores = Object.values(labelStats).map(s => s.f1Score);
+  const f1Scores = labels.map(label => labelStats[label].f1Score);
   const macroF1 = f1Scores.length > 0 ? f1Scores.reduce((sum, f1) => sum + f1, 0) / f1Scores.length : 0;
 
   const overallAccuracy = data.length > 0 ? (totalCorrect / data.length) * 100 : 0;
@@ -146,40 +268,106 @@ const calculateAccuracy = (data: DataRow[]): Omit<AccuracyStats, 'model' | 'targ
   };
 };
 
-const compareModels = async (
-  model1Name: string,
-  model2Name: string,
-  target: string,
-  dataset: "train" | "test"
-): Promise<ComparisonStats> => {
-  // Try both flat structure and directory structure
-  let model1File = `processed-${model1Name.toLowerCase().replace(/[\s.]/g, '-')}-${target}-${dataset}.xlsx`;
-  let model2File = `processed-${model2Name.toLowerCase().replace(/[\s.]/g, '-')}-${target}-${dataset}.xlsx`;
-
-  // Check if files exist in model directories
-  let model1Dir = model1Name.toLowerCase().replace(/[\s.]/g, '-');
-  let model2Dir = model2Name.toLowerCase().replace(/[\s.]/g, '-');
-
-  // Special handling for directory names
-  if (model1Name === 'Gemini-2-5-Pro') {
-    model1Dir = 'gemini-2.5-pro';
-  } else if (model1Name === 'GPT-5') {
-    model1Dir = 'gpt-5';
+// Accuracy of rows whose samples mostly agreed vs. rows where they split
+const calculateAgreementStats = (data: DataRow[], minAgreement: number): AccuracyStats["agreementStats"] => {
+  const sampled = data.filter(row => row.agreement !== undefined);
+  if (sampled.length === 0) {
+    return undefined;
   }
 
-  if (model2Name === 'Gemini-2-5-Pro') {
-    model2Dir = 'gemini-2.5-pro';
-  } else if (model2Name === 'GPT-5') {
-    model2Dir = 'gpt-5';
+  const groupStats = (rows: DataRow[]): AgreementGroupStats => {
+    const correct = rows.filter(row => row.humanLabel === row.llmLabel).length;
+    return { total: rows.length, correct, accuracy: rows.length > 0 ? (correct / rows.length) * 100 : 0 };
+  };
+
+  return {
+    high: groupStats(sampled.filter(row => row.agreement! >= minAgreement)),
+    low: groupStats(sampled.filter(row => row.agreement! < minAgreement))
+  };
+};
+
+const CALIBRATION_BINS = 10;
+const CONFIDENCE_THRESHOLDS = [0.5, 0.6, 0.7, 0.8, 0.9];
+
+// Reliability table over equal-width confidence bins, expected calibration error
+// and accuracy of the rows that would be accepted at each confidence threshold
+const calculateCalibration = (data: DataRow[]): CalibrationStats | undefined => {
+  const rated = data.filter(row => row.confidence !== undefined);
+  if (rated.length === 0) {
+    return undefined;
   }
 
-  if (fs.existsSync(`${model1Dir}/${model1File}`)) {
-    model1File = `${model1Dir}/${model1File}`;
+  const isCorrect = (row: DataRow) => row.humanLabel === row.llmLabel;
+
+  const bins: CalibrationBin[] = [];
+  let ece = 0;
+  for (let i = 0; i < CALIBRATION_BINS; i++) {
+    const lower = i / CALIBRATION_BINS;
+    const upper = (i + 1) / CALIBRATION_BINS;
+    // The last bin includes a confidence of exactly 1
+    const rows = rated.filter(row => row.confidence! >= lower && (row.confidence! < upper || i === CALIBRATION_BINS - 1));
+    if (rows.length === 0) {
+      continue;
+    }
+
+    const meanConfidence = rows.reduce((sum, row) => sum + row.confidence!, 0) / rows.length;
+    const accuracy = rows.filter(isCorrect).length / rows.length;
+    ece += (rows.length / rated.length) * Math.abs(accuracy - meanConfidence);
+    bins.push({ lower, upper, total: rows.length, meanConfidence, accuracy: accuracy * 100 });
   }
-  if (fs.existsSync(`${model2Dir}/${model2File}`)) {
-    model2File = `${model2Dir}/${model2File}`;
+
+  const thresholds = CONFIDENCE_THRESHOLDS.map(threshold => {
+    const accepted = rated.filter(row => row.confidence! >= threshold);
+    return {
+      threshold,
+      total: accepted.length,
+      coverage: (accepted.length / rated.length) * 100,
+      accuracy: accepted.length > 0 ? (accepted.filter(isCorrect).length / accepted.length) * 100 : 0
+    };
+  });
+
+  return { total: rated.length, ece, bins, thresholds };
+};
+
+// Share of the quoted evidence the text doesn't contain, in every explanation column
+const calculateEvidenceStats = (spans: EvidenceSpan[]): EvidenceStats | undefined => {
+  if (spans.length === 0) {
+    return undefined;
   }
 
+  const hallucinated = spans.filter(span => span.status === 'hallucinated').length;
+  return {
+    quotes: spans.length,
+    hallucinated,
+    relocated: spans.filter(span => span.status === 'relocated').length,
+    hallucinationRate: (hallucinated / spans.length) * 100
+  };
+};
+
+// A processed file is looked up in the model's directory first, then in baseDir
+// itself, under its current name and then its name from before language codes
+const findProcessedFile = (baseDir: string, run: ModelRun, target: string, dataset: "train" | "test", language: string): string => {
+  const candidates = getProcessedFileNames(run.config, target, dataset, language, run.variant).flatMap(fileName => [
+    path.join(baseDir, getModelDirectory(run.config), fileName),
+    path.join(baseDir, fileName)
+  ]);
+  return candidates.find(filePath => fs.existsSync(filePath)) ?? candidates[1];
+};
+
+const compareModels = async (
+  run1: ModelRun,
+  run2: ModelRun,
+  target: string,
+  dataset: "train" | "test",
+  language: string,
+  baseDir: string,
+  maxDisagreements = 10
+): Promise<ComparisonStats> => {
+  const model1Name = run1.name;
+  const model2Name = run2.name;
+  const model1File = findProcessedFile(baseDir, run1, target, dataset, language);
+  const model2File = findProcessedFile(baseDir, run2, target, dataset, language);
+
   if (!fs.existsSync(model1File)) {
     throw new Error(`File not found: ${model1File}`);
   }
@@ -187,10 +375,23 @@ const compareModels = async (
     throw new Error(`File not found: ${model2File}`);
   }
 
-  const model1Data = await readProcessedFile(model1File);
-  const model2Data = await readProcessedFile(model2File);
+  const { rows: model1Data } = await readProcessedFile(model1File);
+  const { rows: model2Data } = await readProcessedFile(model2File);
+  return compareRows(model1Name, model2Name, target, dataset, model1Data, model2Data, maxDisagreements);
+};
 
-  const dataMap = new Map<string, {
+const compareRows = (
+  model1Name: string,
+  model2Name: string,
+  target: string,
+  dataset: "train" | "test",
+  model1Data: DataRow[],
+  model2Data: DataRow[],
+  maxDisagreements: number
+): ComparisonStats => {
+  // Rows are matched by row number, so repeated tweets are compared one by one
+  const dataMap = new Map<number, {
+    text: string;
     humanLabel: string;
     model1Label?: string;
     model1Explanation?: string;
@@ -199,7 +400,8 @@ const compareModels = async (
   }>();
 
   model1Data.forEach(item => {
-    dataMap.set(item.text, {
+    dataMap.set(item.rowNumber, {
+      text: item.text,
       humanLabel: item.humanLabel,
       model1Label: item.llmLabel,
       model1Explanation: item.llmExplanation
@@ -207,7 +409,7 @@ const compareModels = async (
   });
 
   model2Data.forEach(item => {
-    const existing = dataMap.get(item.text);
+    const existing = dataMap.get(item.rowNumber);
     if (existing) {
       existing.model2Label = item.llmLabel;
       existing.model2Explanation = item.llmExplanation;
@@ -215,15 +417,17 @@ const compareModels = async (
   });
 
   let agreements = 0;
+  let compared = 0;
   const disagreements: ComparisonStats["disagreements"] = [];
 
-  dataMap.forEach((value, text) => {
+  dataMap.forEach(value => {
     if (value.model1Label && value.model2Label) {
+      compared++;
       if (value.model1Label === value.model2Label) {
         agreements++;
       } else {
         disagreements.push({
-          text,
+          text: value.text,
           humanLabel: value.humanLabel,
           model1Label: value.model1Label,
           model2Label: value.model2Label,
@@ -234,7 +438,7 @@ const compareModels = async (
     }
   });
 
-  const agreementRate = (agreements / dataMap.size) * 100;
+  const agreementRate = compared > 0 ? (agreements / compared) * 100 : 0;
 
   return {
     model1: model1Name,
@@ -242,10 +446,34 @@ const compareModels = async (
     target,
     dataset,
     agreementRate,
-    disagreements: disagreements.slice(0, 10)
+    compared,
+    disagreements: disagreements.slice(0, maxDisagreements)
   };
 };
 
+const getAccuracyStats = (
+  model: string,
+  target: string,
+  dataset: "train" | "test",
+  data: DataRow[],
+  labels: string[],
+  minAgreement: number,
+  evidence: EvidenceSpan[] = []
+): AccuracyStats => ({
+  model,
+  target,
+  dataset,
+  ...calculateAccuracy(data, labels),
+  agreementStats: calculateAgreementStats(data, minAgreement),
+  calibration: calculateCalibration(data),
+  evidence: calculateEvidenceStats(evidence)
+});
+
+const formatLabelF1 = (stat: AccuracyStats, label: string, digits: number): string => {
+  const f1Score = stat.labelStats[label]?.f1Score;
+  return f1Score ? (f1Score * 100).toFixed(digits) : "N/A";
+};
+
 const printAccuracyReport = (stats: AccuracyStats) => {
   console.log(`\n📊 ACCURACY REPORT: ${stats.model} - ${stats.target.toUpperCase()} (${stats.dataset})`);
   console.log("=".repeat(60));
@@ -290,10 +518,50 @@ const printAccuracyReport = (stats: AccuracyStats) => {
   });
 
   console.log(matrixOutput);
+
+  if (stats.calibration) {
+    const { total, ece, bins, thresholds } = stats.calibration;
+    console.log(`📐 Calibration (${total} rows with confidence):`);
+    console.log(`   Expected Calibration Error: ${(ece * 100).toFixed(2)}%`);
+    console.log("   " + "Confidence".padEnd(14) + "Rows".padEnd(8) + "Avg Conf".padEnd(12) + "Accuracy");
+    bins.forEach(bin => {
+      console.log(
+        "   " +
+        `${bin.lower.toFixed(1)}-${bin.upper.toFixed(1)}`.padEnd(14) +
+        String(bin.total).padEnd(8) +
+        `${(bin.meanConfidence * 100).toFixed(1)}%`.padEnd(12) +
+        `${bin.accuracy.toFixed(1)}%`
+      );
+    });
+    console.log("   " + "Threshold".padEnd(14) + "Accepted".padEnd(12) + "Coverage".padEnd(12) + "Accuracy");
+    thresholds.forEach(threshold => {
+      console.log(
+        "   " +
+        `>= ${threshold.threshold.toFixed(1)}`.padEnd(14) +
+        String(threshold.total).padEnd(12) +
+        `${threshold.coverage.toFixed(1)}%`.padEnd(12) +
+        `${threshold.accuracy.toFixed(1)}%`
+      );
+    });
+  }
+
+  if (stats.evidence) {
+    const { quotes, hallucinated, relocated, hallucinationRate } = stats.evidence;
+    console.log(`🔎 Evidence (${quotes} quotes):`);
+    console.log(`   Hallucinated quotes: ${hallucinationRate.toFixed(2)}% (${hallucinated}/${quotes})`);
+    console.log(`   Found at other offsets: ${relocated}`);
+  }
+
+  if (stats.agreementStats) {
+    const { high, low } = stats.agreementStats;
+    console.log("🗳️ Accuracy by Sample Agreement:");
+    console.log(`   High agreement: ${high.accuracy.toFixed(2)}% (${high.correct}/${high.total})`);
+    console.log(`   Low agreement:  ${low.accuracy.toFixed(2)}% (${low.correct}/${low.total})`);
+  }
   console.log("=".repeat(60));
 };
 
-const generateSummaryReport = (allStats: AccuracyStats[], comparisonStats?: ComparisonStats[]) => {
+const generateSummaryReport = (allStats: AccuracyStats[], labels: string[], comparisonStats?: ComparisonStats[]) => {
   const modelGroups = new Map<string, AccuracyStats[]>();
 
   allStats.forEach(stat => {
@@ -309,7 +577,7 @@ const generateSummaryReport = (allStats: AccuracyStats[], comparisonStats?: Comp
   modelGroups.forEach((stats, model) => {
     console.log(`\n🤖 Model: ${model}`);
     console.log("-".repeat(100));
-    console.log("Target".padEnd(15) + "Dataset".padEnd(10) + "Accuracy".padEnd(12) + "F1 Score".padEnd(12) + "Correct/Total".padEnd(20) + "For F1".padEnd(12) + "Against F1");
+    console.log("Target".padEnd(15) + "Dataset".padEnd(10) + "Accuracy".padEnd(12) + "F1 Score".padEnd(12) + "Correct/Total".padEnd(20) + labels.map(label => `${label} F1`.padEnd(12)).join(""));
     console.log("-".repeat(100));
 
     let totalSamples = 0;
@@ -321,17 +589,13 @@ const generateSummaryReport = (allStats: AccuracyStats[], comparisonStats?: Comp
       totalCorrect += stat.correctPredictions;
       totalF1 += stat.f1Score;
 
-      const forF1 = stat.labelStats["for"]?.f1Score ? (stat.labelStats["for"].f1Score * 100).toFixed(1) : "N/A";
-      const againstF1 = stat.labelStats["against"]?.f1Score ? (stat.labelStats["against"].f1Score * 100).toFixed(1) : "N/A";
-
       console.log(
         stat.target.padEnd(15) +
         stat.dataset.padEnd(10) +
         `${stat.accuracy.toFixed(1)}%`.padEnd(12) +
         `${(stat.f1Score * 100).toFixed(1)}%`.padEnd(12) +
         `${stat.correctPredictions}/${stat.totalSamples}`.padEnd(20) +
-        `${forF1}%`.padEnd(12) +
-        `${againstF1}%`
+        labels.map(label => `${formatLabelF1(stat, label, 1)}%`.padEnd(12)).join("")
       );
     });
 
@@ -341,6 +605,26 @@ const generateSummaryReport = (allStats: AccuracyStats[], comparisonStats?: Comp
     console.log(`OVERALL`.padEnd(15) + ``.padEnd(10) + `${overallAccuracy.toFixed(1)}%`.padEnd(12) + `${avgF1.toFixed(1)}%`.padEnd(12) + `${totalCorrect}/${totalSamples}`);
   });
 
+  const withEvidence = allStats.filter(stat => stat.evidence);
+  if (withEvidence.length > 0) {
+    console.log("\n\n🔎 HALLUCINATED QUOTES BY MODEL AND TARGET");
+    console.log("=".repeat(80));
+    console.log("Model".padEnd(25) + "Target".padEnd(15) + "Dataset".padEnd(10) + "Quotes".padEnd(10) + "Hallucinated".padEnd(15) + "Rate");
+    console.log("-".repeat(80));
+
+    withEvidence.forEach(stat => {
+      const { quotes, hallucinated, hallucinationRate } = stat.evidence!;
+      console.log(
+        stat.model.padEnd(25) +
+        stat.target.padEnd(15) +
+        stat.dataset.padEnd(10) +
+        String(quotes).padEnd(10) +
+        String(hallucinated).padEnd(15) +
+        `${hallucinationRate.toFixed(1)}%`
+      );
+    });
+  }
+
   if (comparisonStats && comparisonStats.length > 0) {
     console.log("\n\n📊 MODEL COMPARISON SUMMARY");
     console.log("=".repeat(80));
@@ -365,10 +649,13 @@ const generateSummaryReport = (allStats: AccuracyStats[], comparisonStats?: Comp
 };
 
 const createComprehensiveComparison = async (
-  models: string[],
+  runs: ModelRun[],
   targets: string[],
-  outputPath: string
+  outputPath: string,
+  language: string,
+  baseDir: string
 ) => {
+  const models = runs.map(run => run.name);
   const workbook = new ExcelJS.Workbook();
 
   // Create summary sheet
@@ -400,25 +687,12 @@ const createComprehensiveComparison = async (
 
       // Read all model data
       const modelData = new Map<string, DataRow[]>();
-      for (const model of models) {
-        let filePath = `processed-${model.toLowerCase().replace(/[\s.]/g, '-')}-${target}-${dataset}.xlsx`;
-
-        // Check if file exists in model directory
-        // For Gemini-2-5-Pro, check the gemini-2.5-pro directory
-        let modelDir = model.toLowerCase().replace(/[\s.]/g, '-');
-        if (model === 'Gemini-2-5-Pro') {
-          modelDir = 'gemini-2.5-pro';
-        } else if (model === 'GPT-5') {
-          modelDir = 'gpt-5';
-        }
-
-        const fullPath = `dataset/${modelDir}/${filePath}`;
-        if (fs.existsSync(fullPath)) {
-          filePath = fullPath;
-        }
+      for (const run of runs) {
+        const model = run.name;
+        const filePath = findProcessedFile(baseDir, run, target, dataset, language);
 
         if (fs.existsSync(filePath)) {
-          const data = await readProcessedFile(filePath);
+          const { rows: data } = await readProcessedFile(filePath);
           modelData.set(model, data);
           console.log(`  ✓ Loaded ${model} data from ${filePath}`);
         } else {
@@ -589,11 +863,16 @@ const createComprehensiveComparison = async (
   console.log(`\n📁 Comprehensive comparison saved to: ${outputPath}`);
 };
 
-const writeComparisonReport = async (stats: AccuracyStats[], comparisons: ComparisonStats[], outputPath: string) => {
+const writeComparisonReport = async (stats: AccuracyStats[], comparisons: ComparisonStats[], labels: string[], outputPath: string) => {
   const workbook = new ExcelJS.Workbook();
 
   const summarySheet = workbook.addWorksheet("Accuracy Summary");
-  summarySheet.addRow(["Model", "Target", "Dataset", "Total Samples", "Accuracy (%)", "F1 Score (%)", "Correct Predictions", "For F1 (%)", "Against F1 (%)"]);
+  const hasAgreement = stats.some(stat => stat.agreementStats);
+  summarySheet.addRow([
+    "Model", "Target", "Dataset", "Total Samples", "Accuracy (%)", "F1 Score (%)", "Correct Predictions",
+    ...labels.map(label => `${label} F1 (%)`),
+    ...(hasAgreement ? ["High Agreement Accuracy (%)", "High Agreement Rows", "Low Agreement Accuracy (%)", "Low Agreement Rows"] : [])
+  ]);
 
   stats.forEach(stat => {
     summarySheet.addRow([
@@ -604,8 +883,13 @@ const writeComparisonReport = async (stats: AccuracyStats[], comparisons: Compar
       stat.accuracy.toFixed(2),
       (stat.f1Score * 100).toFixed(2),
       stat.correctPredictions,
-      stat.labelStats["for"]?.f1Score ? (stat.labelStats["for"].f1Score * 100).toFixed(2) : "N/A",
-      stat.labelStats["against"]?.f1Score ? (stat.labelStats["against"].f1Score * 100).toFixed(2) : "N/A"
+      ...labels.map(label => formatLabelF1(stat, label, 2)),
+      ...(hasAgreement ? [
+        stat.agreementStats ? stat.agreementStats.high.accuracy.toFixed(2) : "N/A",
+        stat.agreementStats?.high.total ?? "N/A",
+        stat.agreementStats ? stat.agreementStats.low.accuracy.toFixed(2) : "N/A",
+        stat.agreementStats?.low.total ?? "N/A"
+      ] : [])
     ]);
   });
 
@@ -627,11 +911,218 @@ const writeComparisonReport = async (stats: AccuracyStats[], comparisons: Compar
     ]);
   });
 
-  [summarySheet, comparisonSheet].forEach(sheet => {
+  const sheets = [summarySheet, comparisonSheet];
+  const calibrated = stats.filter(stat => stat.calibration);
+  if (calibrated.length > 0) {
+    const calibrationSheet = workbook.addWorksheet("Calibration");
+    calibrationSheet.addRow([
+      "Model", "Target", "Dataset", "Rows With Confidence", "ECE (%)",
+      ...CONFIDENCE_THRESHOLDS.flatMap(threshold => [`Coverage >= ${threshold} (%)`, `Accuracy >= ${threshold} (%)`])
+    ]);
+    calibrated.forEach(stat => {
+      const calibration = stat.calibration!;
+      calibrationSheet.addRow([
+        stat.model,
+        stat.target,
+        stat.dataset,
+        calibration.total,
+        (calibration.ece * 100).toFixed(2),
+        ...calibration.thresholds.flatMap(threshold => [threshold.coverage.toFixed(2), threshold.accuracy.toFixed(2)])
+      ]);
+    });
+
+    const reliabilitySheet = workbook.addWorksheet("Reliability");
+    reliabilitySheet.addRow(["Model", "Target", "Dataset", "Confidence Bin", "Rows", "Mean Confidence (%)", "Accuracy (%)"]);
+    calibrated.forEach(stat => {
+      stat.calibration!.bins.forEach(bin => {
+        reliabilitySheet.addRow([
+          stat.model,
+          stat.target,
+          stat.dataset,
+          `${bin.lower.toFixed(1)}-${bin.upper.toFixed(1)}`,
+          bin.total,
+          (bin.meanConfidence * 100).toFixed(2),
+          bin.accuracy.toFixed(2)
+        ]);
+      });
+    });
+    sheets.push(calibrationSheet, reliabilitySheet);
+  }
+
+  const withEvidence = stats.filter(stat => stat.evidence);
+  if (withEvidence.length > 0) {
+    const evidenceSheet = workbook.addWorksheet("Evidence");
+    evidenceSheet.addRow(["Model", "Target", "Dataset", "Quotes", "Hallucinated Quotes", "Hallucinated Quote Rate (%)", "Quotes At Other Offsets"]);
+    withEvidence.forEach(stat => {
+      const evidence = stat.evidence!;
+      evidenceSheet.addRow([
+        stat.model,
+        stat.target,
+        stat.dataset,
+        evidence.quotes,
+        evidence.hallucinated,
+        evidence.hallucinationRate.toFixed(2),
+        evidence.relocated
+      ]);
+    });
+    sheets.push(evidenceSheet);
+  }
+
+  sheets.forEach(sheet => {
+    sheet.columns.forEach(column => {
+      column.width = 20;
+    });
+  });
+
+  await workbook.xlsx.writeFile(outputPath);
+};
+
+// Compares every pair of variants of each model, on the rows every variant of
+// the model with a file for the target and split answered, so that no variant
+// is scored on rows another one left out
+const compareVariants = async (
+  runs: ModelRun[],
+  targets: string[],
+  labels: string[],
+  minAgreement: number,
+  baseDir: string,
+  language: string
+): Promise<VariantComparison[]> => {
+  const comparisons: VariantComparison[] = [];
+  for (const modelId of new Set(runs.map(run => run.config.id))) {
+    for (const target of targets) {
+      for (const dataset of ["train", "test"] as const) {
+        const answered = new Map<ModelRun, DataRow[]>();
+        for (const run of runs.filter(run => run.config.id === modelId)) {
+          const filePath = findProcessedFile(baseDir, run, target, dataset, language);
+          if (fs.existsSync(filePath)) {
+            answered.set(run, (await readProcessedFile(filePath)).rows);
+          }
+        }
+        const rowSets = [...answered.values()].map(data => new Set(data.map(row => row.rowNumber)));
+        const shared = new Set([...(rowSets[0] ?? [])].filter(rowNumber => rowSets.every(rowSet => rowSet.has(rowNumber))));
+        if (answered.size < 2 || shared.size === 0) {
+          continue;
+        }
+        const dropped = new Set(rowSets.flatMap(rowSet => [...rowSet])).size - shared.size;
+
+        const sharedRows = new Map([...answered].map(([run, data]) => [run, data.filter(row => shared.has(row.rowNumber))]));
+        const variantRuns = [...sharedRows.keys()];
+        for (let i = 0; i < variantRuns.length; i++) {
+          for (let j = i + 1; j < variantRuns.length; j++) {
+            const [run1, run2] = [variantRuns[i], variantRuns[j]];
+            const [data1, data2] = [sharedRows.get(run1)!, sharedRows.get(run2)!];
+            comparisons.push({
+              model: run1.config.displayName,
+              variant1: run1.variant!,
+              variant2: run2.variant!,
+              stats1: getAccuracyStats(run1.name, target, dataset, data1, labels, minAgreement),
+              stats2: getAccuracyStats(run2.name, target, dataset, data2, labels, minAgreement),
+              comparison: compareRows(run1.name, run2.name, target, dataset, data1, data2, Infinity),
+              dropped
+            });
+          }
+        }
+      }
+    }
+  }
+  return comparisons;
+};
+
+const printVariantComparison = (comparisons: VariantComparison[]) => {
+  console.log("\n\n🧪 PROMPT VARIANT COMPARISON");
+  console.log("=".repeat(110));
+  console.log(
+    "Model".padEnd(18) + "Variants".padEnd(14) + "Target".padEnd(12) + "Dataset".padEnd(9) +
+    "Accuracy".padEnd(16) + "Macro F1".padEnd(16) + "Agreement".padEnd(11) + "Disagreements"
+  );
+  console.log("-".repeat(110));
+  comparisons.forEach(({ model, variant1, variant2, stats1, stats2, comparison }) => {
+    console.log(
+      model.padEnd(18) +
+      `${variant1} / ${variant2}`.padEnd(14) +
+      stats1.target.padEnd(12) +
+      stats1.dataset.padEnd(9) +
+      `${stats1.accuracy.toFixed(1)}% / ${stats2.accuracy.toFixed(1)}%`.padEnd(16) +
+      `${(stats1.f1Score * 100).toFixed(1)}% / ${(stats2.f1Score * 100).toFixed(1)}%`.padEnd(16) +
+      `${comparison.agreementRate.toFixed(1)}%`.padEnd(11) +
+      `${comparison.disagreements.length}/${comparison.compared}`
+    );
+  });
+  console.log("=".repeat(110));
+  // Every pair of a model, target and split leaves out the same rows
+  const reported = new Set<string>();
+  comparisons.forEach(({ model, stats1, comparison, dropped }) => {
+    const key = `${model}|${stats1.target}|${stats1.dataset}`;
+    if (dropped > 0 && !reported.has(key)) {
+      reported.add(key);
+      console.log(`⚠️ ${model} ${stats1.target} ${stats1.dataset}: compared on the ${comparison.compared} rows every variant answered, ${dropped} rows left out`);
+    }
+  });
+};
+
+// One summary row per pair of variants, target and split, and every row they disagree on
+const writeVariantReport = async (comparisons: VariantComparison[], labels: string[], outputPath: string) => {
+  const workbook = new ExcelJS.Workbook();
+
+  const summarySheet = workbook.addWorksheet("Variant Comparison");
+  summarySheet.addRow([
+    "Model", "Variant 1", "Variant 2", "Target", "Dataset",
+    "Variant 1 Accuracy (%)", "Variant 2 Accuracy (%)", "Variant 1 F1 (%)", "Variant 2 F1 (%)",
+    ...labels.flatMap(label => [`Variant 1 ${label} F1 (%)`, `Variant 2 ${label} F1 (%)`]),
+    "Agreement Rate (%)", "Rows Compared", "Rows Dropped", "Disagreements"
+  ]);
+  comparisons.forEach(({ model, variant1, variant2, stats1, stats2, comparison, dropped }) => {
+    summarySheet.addRow([
+      model,
+      variant1,
+      variant2,
+      stats1.target,
+      stats1.dataset,
+      stats1.accuracy.toFixed(2),
+      stats2.accuracy.toFixed(2),
+      (stats1.f1Score * 100).toFixed(2),
+      (stats2.f1Score * 100).toFixed(2),
+      ...labels.flatMap(label => [formatLabelF1(stats1, label, 2), formatLabelF1(stats2, label, 2)]),
+      comparison.agreementRate.toFixed(2),
+      comparison.compared,
+      dropped,
+      comparison.disagreements.length
+    ]);
+  });
+
+  const disagreementSheet = workbook.addWorksheet("Variant Disagreements");
+  disagreementSheet.addRow([
+    "Model", "Variant 1", "Variant 2", "Target", "Dataset", "Text", "Human Label",
+    "Variant 1 Label", "Variant 2 Label", "Variant 1 Explanation", "Variant 2 Explanation", "Correct Variant"
+  ]);
+  comparisons.forEach(({ model, variant1, variant2, stats1, comparison }) => {
+    comparison.disagreements.forEach(row => {
+      const correct = row.model1Label === row.humanLabel ? variant1 : row.model2Label === row.humanLabel ? variant2 : "neither";
+      disagreementSheet.addRow([
+        model,
+        variant1,
+        variant2,
+        stats1.target,
+        stats1.dataset,
+        row.text,
+        row.humanLabel,
+        row.model1Label,
+        row.model2Label,
+        row.model1Explanation ?? "",
+        row.model2Explanation ?? "",
+        correct
+      ]);
+    });
+  });
+
+  [summarySheet, disagreementSheet].forEach(sheet => {
+    sheet.getRow(1).font = { bold: true };
     sheet.columns.forEach(column => {
       column.width = 20;
     });
   });
+  disagreementSheet.getColumn(6).width = 60;
 
   await workbook.xlsx.writeFile(outputPath);
 };
@@ -655,11 +1146,31 @@ const main = async () => {
         short: 'c',
         default: false
       },
+      'dataset-dir': {
+        type: 'string',
+        default: DEFAULT_DATASET_DIR
+      },
       output: {
         type: 'string',
         short: 'o',
         default: 'comparison-report.xlsx'
       },
+      'label-set': {
+        type: 'string',
+        default: DEFAULT_LABEL_SET
+      },
+      'min-agreement': {
+        type: 'string',
+        default: '0.8'
+      },
+      language: {
+        type: 'string',
+        default: DEFAULT_LANGUAGE
+      },
+      variant: {
+        type: 'string',
+        multiple: true
+      },
       help: {
         type: 'boolean',
         short: 'h'
@@ -673,48 +1184,90 @@ Usage: bun run compare -- [options]
 
 Options:
   -m, --models <models>   Models to analyze (can be specified multiple times)
-                          Options: gpt-5, gemini-2.0-flash, gemini-2.5-pro
-                          Default: all available models
+                          Options: models of config/models.json, local:<name>
+                          Default: all registered models with processed files
   -t, --targets <targets> Specific targets to analyze (can be specified multiple times)
-                          Default: all targets
+                          Default: all targets of config/targets.json
   -c, --compare           Enable model comparison analysis
   -o, --output <file>     Output Excel file for detailed report
                           Default: comparison-report.xlsx
+  --label-set <name>      Labels the files were annotated with (${Object.keys(LABEL_SETS).join(', ')})
+                          Default: ${DEFAULT_LABEL_SET}
+  --min-agreement <ratio> Sample agreement from which a row counts as high agreement
+                          (files processed with --samples). Default: 0.8
+  --language <name>       Language of the files to analyze (${Object.keys(LANGUAGES).join(', ')})
+                          Default: ${DEFAULT_LANGUAGE}
+  --variant <name>        Analyze the files of this prompt variant (processed-...@<name>.xlsx)
+                          instead of the regular ones. Variants are prompt versions, as run
+                          with process --variant <name>; no other setting can be varied.
+                          With two or more and --compare, every pair of variants of a model
+                          is compared on the rows all of them answered and written to
+                          <output>-variants.xlsx
+  --dataset-dir <dir>     Where the processed files are, in a directory per model or
+                          directly in it. Default: ${DEFAULT_DATASET_DIR}
   -h, --help              Show this help message
 
 Examples:
   bun run compare -- -m gpt-5 -m gemini-2.5-pro --compare
   bun run compare -- --models gpt-5 --targets bolsonaro --targets lula
+  bun run compare -- -m gpt-5 -m local:llama3.1:8b --compare
   bun run compare -- -c -o detailed-comparison.xlsx
+  bun run compare -- -m gpt-5 --variant v1 --variant v2
 `);
     process.exit(0);
   }
 
-  const currentDir = "/Users/aluisioamorim/Code/AluisioDev/label-explainer/dataset";
-  const allTargets = ["bolsonaro", "cloroquina", "coronavac", "globo", "igreja", "lula"];
-  const targets = values.targets as string[] || allTargets;
+  const labelSetName = values['label-set'] as string;
+  if (!LABEL_SETS[labelSetName]) {
+    console.error(`❌ Invalid label set: ${labelSetName}`);
+    console.log(`Valid label sets: ${Object.keys(LABEL_SETS).join(', ')}`);
+    process.exit(1);
+  }
+  const labels = getLabelNames(getLabelSet(labelSetName));
 
-  const modelNameMap: Record<string, string> = {
-    'gpt-5': 'GPT-5',
-    'gemini-2.0-flash': 'Gemini-2.0-Flash',
-    'gemini-2.5-pro': 'Gemini-2-5-Pro'  // Match the actual file naming
-  };
+  const minAgreement = Number(values['min-agreement']);
+  if (!Number.isFinite(minAgreement) || minAgreement < 0 || minAgreement > 1) {
+    console.error(`❌ Invalid --min-agreement: ${values['min-agreement']} (expected a ratio between 0 and 1)`);
+    process.exit(1);
+  }
+
+  const language = findLanguage(values.language as string);
+  if (!language) {
+    console.error(`❌ Invalid language: ${values.language}`);
+    console.log(`Valid languages: ${Object.keys(LANGUAGES).join(', ')}`);
+    process.exit(1);
+  }
 
-  let models: string[] = [];
+  const currentDir = values['dataset-dir'] as string;
+  const targets = values.targets as string[] || getTargetIds();
+  for (const target of targets) {
+    if (!findTarget(target)) {
+      console.error(`❌ Invalid target: ${target}`);
+      console.log(`Valid targets: ${getTargetIds().join(', ')} (see config/targets.json)`);
+      process.exit(1);
+    }
+  }
+
+  const variants = values.variant ? [...new Set(values.variant as string[])] : [];
+  const getRuns = (config: ModelConfig): ModelRun[] => variants.length > 0
+    ? variants.map(variant => ({ config, variant, name: formatModelVariant(config.displayName, variant) }))
+    : [{ config, name: config.displayName }];
+
+  let models: ModelConfig[] = [];
   if (values.models) {
-    models = (values.models as string[]).map(m => modelNameMap[m] || m);
-  } else {
-    // Auto-detect available models by checking for files
-    for (const [key, modelName] of Object.entries(modelNameMap)) {
-      const testFile = `processed-${modelName.toLowerCase().replace(/[\s.]/g, '-')}-${targets[0]}-test.xlsx`;
-      const modelDir = modelName.toLowerCase().replace(/[\s.]/g, '-');
-
-      // Check both flat structure and directory structure
-      if (fs.existsSync(path.join(currentDir, testFile)) ||
-        fs.existsSync(path.join(currentDir, modelDir, testFile))) {
-        models.push(modelName);
+    for (const modelId of values.models as string[]) {
+      const config = findModelConfig(modelId);
+      if (!config) {
+        console.error(`❌ Invalid model: ${modelId} (expected a model of config/models.json or local:<name>)`);
+        process.exit(1);
       }
+      models.push(config);
     }
+  } else {
+    // Auto-detect registered models that have a test file for the first target
+    models = loadModelRegistry().filter(model =>
+      getRuns(model).some(run => fs.existsSync(findProcessedFile(currentDir, run, targets[0], 'test', language.name)))
+    );
   }
 
   if (models.length === 0) {
@@ -722,46 +1275,29 @@ Examples:
     process.exit(1);
   }
 
-  console.log(`\n📊 Analyzing models: ${models.join(', ')}`);
-  console.log(`📁 Targets: ${targets.join(', ')}\n`);
+  const runs = models.flatMap(getRuns);
+
+  console.log(`\n📊 Analyzing models: ${runs.map(run => run.name).join(', ')}`);
+  console.log(`📁 Targets: ${targets.join(', ')}`);
+  console.log(`🌐 Language: ${language.name}\n`);
 
   const allStats: AccuracyStats[] = [];
   const comparisonStats: ComparisonStats[] = [];
 
-  // Analyze each model
-  for (const modelName of models) {
+  // Analyze each model, and each variant of it
+  for (const run of runs) {
+    const modelName = run.name;
     console.log(`\n🤖 Analyzing ${modelName}...`);
     console.log("=".repeat(60));
 
     for (const target of targets) {
       for (const dataset of ["train", "test"] as const) {
-        let filePath = `processed-${modelName.toLowerCase().replace(/[\s.]/g, '-')}-${target}-${dataset}.xlsx`;
-
-        // Check if file exists in model directory
-        let modelDir = modelName.toLowerCase().replace(/[\s.]/g, '-');
-        if (modelName === 'Gemini-2-5-Pro') {
-          modelDir = 'gemini-2.5-pro';
-        } else if (modelName === 'GPT-5') {
-          modelDir = 'gpt-5';
-        }
-
-        const modelDirPath = path.join(currentDir, modelDir, filePath);
-        if (fs.existsSync(modelDirPath)) {
-          filePath = modelDirPath;
-        } else {
-          filePath = path.join(currentDir, filePath);
-        }
+        const filePath = findProcessedFile(currentDir, run, target, dataset, language.name);
 
         if (fs.existsSync(filePath)) {
-          const data = await readProcessedFile(filePath);
+          const { rows: data, evidence } = await readProcessedFile(filePath);
           if (data.length > 0) {
-            const stats = calculateAccuracy(data);
-            const fullStats: AccuracyStats = {
-              model: modelName,
-              target,
-              dataset,
-              ...stats
-            };
+            const fullStats = getAccuracyStats(modelName, target, dataset, data, labels, minAgreement, evidence);
 
             if (dataset === "test") {
               printAccuracyReport(fullStats);
@@ -774,21 +1310,21 @@ Examples:
   }
 
   // Model comparison if requested and multiple models available
-  if (values.compare && models.length >= 2) {
+  if (values.compare && runs.length >= 2) {
     console.log("\n\n🔄 Performing model comparisons...");
     console.log("=".repeat(60));
 
-    for (let i = 0; i < models.length; i++) {
-      for (let j = i + 1; j < models.length; j++) {
-        const model1 = models[i];
-        const model2 = models[j];
+    for (let i = 0; i < runs.length; i++) {
+      for (let j = i + 1; j < runs.length; j++) {
+        const model1 = runs[i];
+        const model2 = runs[j];
 
-        console.log(`\nComparing ${model1} vs ${model2}...`);
+        console.log(`\nComparing ${model1.name} vs ${model2.name}...`);
 
         for (const target of targets) {
           for (const dataset of ["train", "test"] as const) {
             try {
-              const comparison = await compareModels(model1, model2, target, dataset);
+              const comparison = await compareModels(model1, model2, target, dataset, language.name, currentDir);
               comparisonStats.push(comparison);
 
               if (comparison.disagreements.length > 0) {
@@ -805,16 +1341,28 @@ Examples:
 
   // Generate summary report
   if (allStats.length > 0) {
-    generateSummaryReport(allStats, comparisonStats);
+    generateSummaryReport(allStats, labels, comparisonStats);
 
     // Write Excel report
     const outputPath = values.output as string || 'comparison-report.xlsx';
-    await writeComparisonReport(allStats, comparisonStats, outputPath);
+    await writeComparisonReport(allStats, comparisonStats, labels, outputPath);
     console.log(`\n📁 Detailed report saved to: ${outputPath}`);
 
     // Create comprehensive comparison Excel
     const comparisonPath = outputPath.replace('.xlsx', '-comprehensive.xlsx');
-    await createComprehensiveComparison(models, targets, comparisonPath);
+    await createComprehensiveComparison(runs, targets, comparisonPath, language.name, currentDir);
+
+    if (variants.length >= 2) {
+      const variantComparisons = await compareVariants(runs, targets, labels, minAgreement, currentDir, language.name);
+      if (variantComparisons.length > 0) {
+        printVariantComparison(variantComparisons);
+        const variantPath = outputPath.replace('.xlsx', '-variants.xlsx');
+        await writeVariantReport(variantComparisons, labels, variantPath);
+        console.log(`\n📁 Variant comparison saved to: ${variantPath}`);
+      } else {
+        console.log(`\n⚠️ No target and split was processed with more than one variant of the same model`);
+      }
+    }
   }
 
   console.log("\n🎉 Analysis completed!");
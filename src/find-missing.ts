@@ -2,6 +2,12 @@ import ExcelJS from "exceljs";
 import fs from "fs";
 import path from "path";
 import { parseArgs } from "util";
+import { getAnnotationTasks, getColumnReportName, type AnnotationTask } from "./tasks";
+import { DEFAULT_LANGUAGE, findLanguage, LANGUAGES, type Language } from "./utils/languages";
+import { findModelConfig, getModelDirectory, getProcessedFileName, getProcessedFileNames, loadModelRegistry } from "./utils/models";
+import { findTarget, getTargetIds } from "./utils/targets";
+import { DEFAULT_DATASET_DIR } from "./utils/common";
+import { getHeaderColumns, locateTaskColumns } from "./services/excel";
 
 interface MissingCellInfo {
   rowNumber: number;
@@ -16,7 +22,7 @@ interface FileReport {
   missingDetails: MissingCellInfo[];
 }
 
-const analyzeMissingCells = async (filePath: string): Promise<FileReport> => {
+const analyzeMissingCells = async (filePath: string, tasks: AnnotationTask<any, any>[]): Promise<FileReport> => {
   const workbook = new ExcelJS.Workbook();
   await workbook.xlsx.readFile(filePath);
   const worksheet = workbook.getWorksheet(1);
@@ -28,18 +34,19 @@ const analyzeMissingCells = async (filePath: string): Promise<FileReport> => {
   const missingDetails: MissingCellInfo[] = [];
   let totalRows = 0;
 
-  // Expected columns based on compare.ts and process.ts
-  // Column 1: text
-  // Column 3: human-label
-  // Column 7: human-label-explanation
-  // Column 8: llm-label
-  // Column 9: llm-label-explanation
+  // Expected columns: the source text and human label, plus every column
+  // written by an annotation task (human-label-explanation, llm-label,
+  // llm-label-explanation, and one human-label-explanation-<code> per extra
+  // language), wherever the file has them
+  const headerColumns = getHeaderColumns(worksheet);
   const columnMap: Record<number, string> = {
     1: "text",
     3: "human-label",
-    7: "human-label-explanation",
-    8: "llm-label",
-    9: "llm-label-explanation"
+    ...Object.fromEntries(tasks.flatMap(task =>
+      locateTaskColumns(task.columns, headerColumns)
+        .filter(column => !column.optional)
+        .map(column => [column.column, getColumnReportName(column)])
+    ))
   };
 
   worksheet.eachRow((row, rowNumber) => {
@@ -89,6 +96,22 @@ const main = async () => {
         short: 't',
         multiple: true
       },
+      language: {
+        type: 'string',
+        default: DEFAULT_LANGUAGE
+      },
+      'extra-language': {
+        type: 'string',
+        multiple: true
+      },
+      variant: {
+        type: 'string',
+        multiple: true
+      },
+      'dataset-dir': {
+        type: 'string',
+        default: DEFAULT_DATASET_DIR
+      },
       output: {
         type: 'string',
         short: 'o'
@@ -106,87 +129,124 @@ Usage: bun run find-missing -- [options]
 
 Options:
   -m, --models <models>   Models to check (can be specified multiple times)
-                          Options: gpt-5, gemini-2.5-pro
-                          Default: all available models
+                          Options: models of config/models.json, local:<name>
+                          Default: registered models with a directory in the dataset directory
   -t, --targets <targets> Specific targets to check (can be specified multiple times)
-                          Default: all targets
+                          Default: all targets of config/targets.json
+  --language <name>       Language of the files to check (${Object.keys(LANGUAGES).join(', ')})
+                          Default: ${DEFAULT_LANGUAGE}
+  --extra-language <name> Also check the explanation column of this language
+                          (can be specified multiple times)
+  --variant <name>        Check the files of this prompt variant instead of the
+                          regular ones (can be specified multiple times)
+  --dataset-dir <dir>     Where the processed files are, in a directory per model
+                          Default: ${DEFAULT_DATASET_DIR}
   -o, --output <file>     Output JSON file with detailed missing data report
   -h, --help              Show this help message
 
 Examples:
   bun run find-missing -- -m gpt-5
   bun run find-missing -- --models gpt-5 --targets bolsonaro
+  bun run find-missing -- -m local:llama3.1:8b
+  bun run find-missing -- --language english --extra-language pt
   bun run find-missing -- -o missing-report.json
 `);
     process.exit(0);
   }
 
-  const datasetDir = "/Users/aluisioamorim/Code/AluisioDev/label-explainer/dataset";
-  const allTargets = ["bolsonaro", "cloroquina", "coronavac", "globo", "igreja", "lula"];
-  const allModels = ["gpt-5", "gemini-2.5-pro"];
+  const datasetDir = values['dataset-dir'] as string;
+  const targets = values.targets as string[] || getTargetIds();
+  for (const target of targets) {
+    if (!findTarget(target)) {
+      console.error(`❌ Invalid target: ${target}`);
+      console.log(`Valid targets: ${getTargetIds().join(', ')} (see config/targets.json)`);
+      process.exit(1);
+    }
+  }
 
-  const targets = values.targets as string[] || allTargets;
-  const models = values.models as string[] || allModels;
+  const parseLanguage = (value: string): Language => {
+    const language = findLanguage(value);
+    if (!language) {
+      console.error(`❌ Invalid language: ${value}`);
+      console.log(`Valid languages: ${Object.keys(LANGUAGES).join(', ')}`);
+      process.exit(1);
+    }
+    return language;
+  };
+  const language = parseLanguage(values.language as string);
+  const extraLanguages = ((values['extra-language'] as string[] | undefined) ?? [])
+    .map(parseLanguage)
+    .filter(extraLanguage => extraLanguage !== language);
+  const tasks = getAnnotationTasks(undefined, { extraLanguages });
+  const variants = values.variant ? [...new Set(values.variant as string[])] : [undefined];
+
+  // By default every registered model that has a directory of processed files
+  const models = values.models
+    ? (values.models as string[]).map(modelId => {
+      const config = findModelConfig(modelId);
+      if (!config) {
+        console.error(`❌ Invalid model: ${modelId} (expected a model of config/models.json or local:<name>)`);
+        process.exit(1);
+      }
+      return config;
+    })
+    : loadModelRegistry().filter(config => fs.existsSync(path.join(datasetDir, getModelDirectory(config))));
 
   console.log(`\n🔍 Analyzing missing cells...`);
-  console.log(`📁 Models: ${models.join(', ')}`);
-  console.log(`📋 Targets: ${targets.join(', ')}\n`);
+  console.log(`📁 Models: ${models.map(model => model.id).join(', ')}`);
+  console.log(`📋 Targets: ${targets.join(', ')}`);
+  console.log(`🌐 Language: ${language.name}${extraLanguages.length > 0 ? ` (also checking explanations in ${extraLanguages.map(extra => extra.name).join(', ')})` : ''}\n`);
 
   const allReports: FileReport[] = [];
   let totalFilesChecked = 0;
   let totalFilesWithMissing = 0;
 
   for (const model of models) {
-    const modelDir = path.join(datasetDir, model);
+    const modelDir = path.join(datasetDir, getModelDirectory(model));
 
     if (!fs.existsSync(modelDir)) {
       console.log(`⚠️  Directory not found: ${modelDir}`);
       continue;
     }
 
-    console.log(`\n🤖 Checking ${model}...`);
+    console.log(`\n🤖 Checking ${model.id}...`);
     console.log("=".repeat(80));
 
     for (const target of targets) {
-      for (const dataset of ["train", "test"]) {
-        // Determine file naming pattern based on model
-        let fileName: string;
-        if (model === "gpt-5") {
-          fileName = `processed-gpt-5-${target}-${dataset}.xlsx`;
-        } else if (model === "gemini-2.5-pro") {
-          fileName = `processed-gemini-2-5-pro-${target}-${dataset}.xlsx`;
-        } else {
-          continue;
-        }
-
-        const filePath = path.join(modelDir, fileName);
-
-        if (!fs.existsSync(filePath)) {
-          console.log(`  ⚠️  File not found: ${fileName}`);
-          continue;
-        }
-
-        totalFilesChecked++;
-        const report = await analyzeMissingCells(filePath);
-        allReports.push(report);
-
-        if (report.rowsWithMissing > 0) {
-          totalFilesWithMissing++;
-          console.log(`  ❌ ${fileName}`);
-          console.log(`     Missing: ${report.rowsWithMissing}/${report.totalRows} rows`);
-
-          // Show first few examples
-          const examples = report.missingDetails.slice(0, 3);
-          examples.forEach(detail => {
-            console.log(`     Row ${detail.rowNumber}: Missing [${detail.missingColumns.join(', ')}]`);
-            console.log(`       Text: "${detail.text}..."`);
-          });
-
-          if (report.missingDetails.length > 3) {
-            console.log(`     ... and ${report.missingDetails.length - 3} more rows`);
+      for (const dataset of ["train", "test"] as const) {
+        for (const variant of variants) {
+          // Files written before language codes keep their old name
+          const fileName = getProcessedFileNames(model, target, dataset, language.name, variant)
+            .find(candidate => fs.existsSync(path.join(modelDir, candidate)));
+
+          if (!fileName) {
+            console.log(`  ⚠️  File not found: ${getProcessedFileName(model, target, dataset, language.name, variant)}`);
+            continue;
+          }
+          const filePath = path.join(modelDir, fileName);
+
+          totalFilesChecked++;
+          const report = await analyzeMissingCells(filePath, tasks);
+          allReports.push(report);
+
+          if (report.rowsWithMissing > 0) {
+            totalFilesWithMissing++;
+            console.log(`  ❌ ${fileName}`);
+            console.log(`     Missing: ${report.rowsWithMissing}/${report.totalRows} rows`);
+
+            // Show first few examples
+            const examples = report.missingDetails.slice(0, 3);
+            examples.forEach(detail => {
+              console.log(`     Row ${detail.rowNumber}: Missing [${detail.missingColumns.join(', ')}]`);
+              console.log(`       Text: "${detail.text}..."`);
+            });
+
+            if (report.missingDetails.length > 3) {
+              console.log(`     ... and ${report.missingDetails.length - 3} more rows`);
+            }
+          } else {
+            console.log(`  ✅ ${fileName} (Complete)`);
           }
-        } else {
-          console.log(`  ✅ ${fileName} (Complete)`);
         }
       }
     }
@@ -1,64 +1,111 @@
 import fs from "fs";
 import path from "path";
 import { parseArgs } from "util";
+import { BATCH_JOB_PROVIDERS, readBatchJobResults, writeBatchJobRequests, type BatchJobs } from "./services/batch-jobs";
+import { runAnnotationTask, type TaskContext } from "./services/batch-processor";
+import { CheckpointConflictError, clearCheckpoints } from "./services/checkpoint";
+import { createDryRun, DEFAULT_PROMPTS_DIR, printDryRunSummary, type DryRun } from "./services/dry-run";
+import { OUTPUT_MODES, type OutputMode } from "./services/response-parser";
+import { configureAuditLog, DEFAULT_AUDIT_LOG_PATH, getAuditLogPath, getAuditRunId } from "./services/audit-log";
+import { configureResponseCache, DEFAULT_CACHE_DIR, printCacheSummary } from "./services/response-cache";
+import { configureRetryPolicy } from "./services/retry";
+import { configureRateLimits } from "./services/scheduler";
+import { DEFAULT_SHUTDOWN_TIMEOUT_MS, formatResumeCommand, installShutdownHandlers, isShuttingDown } from "./services/shutdown";
+import { isBudgetExhausted, printUsageSummary, setCostBudget } from "./services/usage";
+import { readTaskInputs, updateExcelWithRecords } from "./services/excel";
+import { loadExamplePool } from "./services/few-shot";
+import { DEFAULT_PROMPT_VERSION, getPromptVersions } from "./prompts/templates";
+import { getAnnotationTasks, isTaskOfStep, type AnnotationTask } from "./tasks";
+import { runWizard } from "./wizard";
+import { DEFAULT_INPUT_DIR, parseNonNegativeInt, parsePositiveInt, parsePositiveNumber } from "./utils/common";
+import { DEFAULT_LABEL_SET, getLabelSet, LABEL_SETS, type LabelSet } from "./utils/label-sets";
+import { DEFAULT_LANGUAGE, findLanguage, LANGUAGES, type Language } from "./utils/languages";
 import {
-  classifyAndExplainStance,
-  explainStanceLabels
-} from "./services/batch-processor";
-import { clearCheckpoints } from "./services/checkpoint";
-import {
-  readExcelFile,
-  readExcelFileWithLabels,
-  updateExcelWithClassifications,
-  updateExcelWithExplanations
-} from "./services/excel";
-import { getModel, getModelDisplayName, type LanguageModel, type ModelType } from "./utils/models";
+  findModelConfig,
+  formatModelVariant,
+  getModel,
+  getModelIds,
+  getProcessedFileName,
+  type LanguageModel,
+  type ModelConfig
+} from "./utils/models";
+import { findTarget, getTargetIds } from "./utils/targets";
 
 const processDataset = async (
   model: LanguageModel,
-  modelType: ModelType,
+  modelConfig: ModelConfig,
   target: string,
   filePath: string,
-  isTrainFile: boolean
+  isTrainFile: boolean,
+  language: Language,
+  outputMode: OutputMode,
+  tasks: AnnotationTask<any, any>[],
+  // Only a full run rebuilds the output file from the source file
+  everyStep: boolean,
+  variant?: string,
+  fewShot?: TaskContext['fewShot'],
+  batchJobs?: BatchJobs,
+  dryRun?: DryRun
 ) => {
-  const modelName = getModelDisplayName(modelType);
-  const outputPath = `processed-${modelName.toLowerCase().replace(/[\s.]/g, '-')}-${target}-${isTrainFile ? 'train' : 'test'}.xlsx`;
+  const modelName = formatModelVariant(modelConfig.displayName, variant);
+  const outputPath = getProcessedFileName(modelConfig, target, isTrainFile ? 'train' : 'test', language.name, variant);
 
   const fileType = isTrainFile ? "training" : "test";
   console.log(`📖 Processing ${fileType} file for ${target} using ${modelName}...`);
 
-  // Step 1: Explain human labels
-  const dataRowsWithLabels = await readExcelFileWithLabels(filePath);
-  const humanExplanations = await explainStanceLabels(
-    model,
-    modelType,
-    target,
-    dataRowsWithLabels,
-    "portuguese",
-    isTrainFile
-  );
-  await updateExcelWithExplanations(filePath, humanExplanations, outputPath);
-  console.log(`✅ Added human label explanations to ${outputPath}`);
-
-  // Step 2: Classify and explain using LLM
-  const texts = await readExcelFile(filePath);
-  const llmClassifications = await classifyAndExplainStance(
-    model,
-    modelType,
-    target,
-    texts,
-    "portuguese",
-    isTrainFile
-  );
-  await updateExcelWithClassifications(outputPath, llmClassifications, outputPath);
-  console.log(`✅ Added LLM classifications to ${outputPath}`);
+  // Each task reads the original file and adds its columns to the output file.
+  // Runs of some steps keep the columns earlier runs wrote for the others.
+  let basePath = everyStep || !fs.existsSync(outputPath) ? filePath : outputPath;
+  for (const task of tasks) {
+    const rows = await readTaskInputs(filePath, task);
+    const result = await runAnnotationTask({
+      task,
+      model,
+      modelType: modelConfig.id,
+      target,
+      split: isTrainFile ? 'train' : 'test',
+      language: language.name,
+      variant,
+      outputMode,
+      fewShot,
+      batchJobs,
+      dryRun
+    }, rows);
+    // Nothing was answered yet, the requests only go to the export file or to disk
+    if (batchJobs?.mode === 'export' || dryRun) {
+      continue;
+    }
+    await updateExcelWithRecords(basePath, task, result, outputPath);
+    basePath = outputPath;
+    console.log(`✅ Added ${task.description} to ${outputPath}`);
+    // The rows answered so far are in the file; later tasks wait for the resumed run
+    if (isShuttingDown()) {
+      break;
+    }
+  }
 
   return outputPath;
 };
 
-const main = async () => {
+// Examples come from the training split only; rows that also occur in the test
+// split are left out of the pool
+const loadFewShot = async (
+  poolPath: string,
+  labelSet: LabelSet,
+  testPath: string | undefined,
+  count: number
+): Promise<TaskContext['fewShot']> => {
+  if (count === 0) {
+    return undefined;
+  }
+  const pool = await loadExamplePool(poolPath, labelSet, testPath ? [testPath] : []);
+  console.log(`📚 Few-shot pool: ${pool.examples.length} labeled examples from ${path.basename(poolPath)}, ${count} per batch`);
+  return { pool, count, poolPath };
+};
+
+const main = async (args: string[]) => {
   const { values } = parseArgs({
-    args: process.argv.slice(2),
+    args,
     options: {
       model: {
         type: 'string',
@@ -70,10 +117,100 @@ const main = async () => {
         short: 't',
         multiple: true
       },
+      splits: {
+        type: 'string',
+        multiple: true
+      },
+      steps: {
+        type: 'string',
+        multiple: true
+      },
       'clear-checkpoints': {
         type: 'boolean',
         short: 'c'
       },
+      'label-set': {
+        type: 'string',
+        default: DEFAULT_LABEL_SET
+      },
+      'output-mode': {
+        type: 'string',
+        default: 'structured'
+      },
+      'prompt-version': {
+        type: 'string'
+      },
+      variant: {
+        type: 'string',
+        multiple: true
+      },
+      language: {
+        type: 'string',
+        default: DEFAULT_LANGUAGE
+      },
+      'extra-language': {
+        type: 'string',
+        multiple: true
+      },
+      samples: {
+        type: 'string'
+      },
+      'few-shot': {
+        type: 'string',
+        default: '0'
+      },
+      concurrency: {
+        type: 'string'
+      },
+      rpm: {
+        type: 'string'
+      },
+      tpm: {
+        type: 'string'
+      },
+      'max-attempts': {
+        type: 'string'
+      },
+      'retry-delay': {
+        type: 'string'
+      },
+      'max-retry-delay': {
+        type: 'string'
+      },
+      'max-cost': {
+        type: 'string'
+      },
+      'shutdown-timeout': {
+        type: 'string'
+      },
+      'no-cache': {
+        type: 'boolean'
+      },
+      'cache-dir': {
+        type: 'string',
+        default: DEFAULT_CACHE_DIR
+      },
+      'audit-log': {
+        type: 'string',
+        default: DEFAULT_AUDIT_LOG_PATH
+      },
+      'export-batch-jobs': {
+        type: 'string'
+      },
+      'import-batch-results': {
+        type: 'string'
+      },
+      'dry-run': {
+        type: 'boolean'
+      },
+      'prompts-dir': {
+        type: 'string',
+        default: DEFAULT_PROMPTS_DIR
+      },
+      'input-dir': {
+        type: 'string',
+        default: DEFAULT_INPUT_DIR
+      },
       help: {
         type: 'boolean',
         short: 'h'
@@ -85,47 +222,249 @@ const main = async () => {
     console.log(`
 Usage: bun run process -- [options]
 
+Without options, an interactive wizard asks for the models, targets, splits and steps.
+
 Options:
-  -m, --model <model>     AI model to use (gpt-4, gemini-2.0-flash, gemini-2.5-pro)
+  -m, --model <model>     AI model to use (${getModelIds().join(', ')}, local:<name>)
                           Default: gemini-2.0-flash
+                          Models are registered in config/models.json
+                          mock answers locally, scripted with MOCK_MODEL_SCRIPT
+                          local:<name> uses an OpenAI-compatible server (Ollama, vLLM,
+                          llama.cpp) at LOCAL_MODEL_BASE_URL
   -t, --targets <targets> Specific targets to process (can be specified multiple times)
-                          Default: all targets (bolsonaro, cloroquina, coronavac, globo, igreja, lula)
+                          Default: all targets of config/targets.json (${getTargetIds().join(', ')})
+  --splits <split>        Splits to process (train, test; can be specified multiple times)
+                          Default: both
+  --steps <task>          Annotation tasks to run (${getAnnotationTasks().map(task => task.name).join(', ')};
+                          can be specified multiple times; explain includes the extra languages)
+                          Default: all, in order
   -c, --clear-checkpoints Clear all checkpoint files before processing
+  --label-set <name>      Labels the model may assign (${Object.keys(LABEL_SETS).join(', ')})
+                          Default: ${DEFAULT_LABEL_SET}
+  --output-mode <mode>    How batch results are requested (structured, tsv)
+                          Default: structured (use tsv for models without structured output)
+  --prompt-version <name> Prompt templates to use (${getPromptVersions().join(', ')}), from
+                          config/prompts/<name>/; checkpoints of other prompts are not resumed
+                          Default: ${DEFAULT_PROMPT_VERSION}
+  --variant <name>        Run this prompt version as a variant of an experiment, with
+                          checkpoints and output files of its own (processed-...-pt@<name>.xlsx);
+                          can be specified multiple times to run several on the same rows,
+                          compare them with bun run compare -- --variant <name> ...
+  --language <name>       Language of the explanations (${Object.keys(LANGUAGES).join(', ')}; name
+                          or code); checkpoints and output files are kept per language
+                          Default: ${DEFAULT_LANGUAGE}
+  --extra-language <name> Also explain the human labels in this language, in a column
+                          of its own (step explain-<code>; can be specified multiple times)
+  --samples <num>         Independent classifications per row; the majority label is
+                          kept with its agreement ratio, all samples go to a side sheet
+                          Default: 1
+  --few-shot <num>        Labeled training examples per prompt, picked by lexical similarity
+                          to the batch and balanced by label
+                          Default: 0 (no examples)
+  --concurrency <num>     Maximum requests in flight per provider
+                          Default: 4 (OpenAI, Google), 1 (local)
+  --rpm <num>             Maximum requests per minute per provider
+  --tpm <num>             Maximum estimated tokens per minute per provider
+  --max-attempts <num>    Attempts per request before a batch is marked failed
+                          Default: 3
+  --retry-delay <ms>      Base delay for exponential backoff between attempts
+                          Default: 2000
+  --max-retry-delay <ms>  Upper bound for a single backoff delay
+                          Default: 60000
+  --max-cost <usd>        Stop sending new batches once the estimated cost of
+                          this run reaches the given amount in USD
+  --shutdown-timeout <s>  On Ctrl+C, seconds to wait for requests in flight before
+                          aborting them (a second Ctrl+C exits at once)
+                          Default: ${DEFAULT_SHUTDOWN_TIMEOUT_MS / 1000}
+  --no-cache              Send every request, even those answered before
+  --cache-dir <dir>       Where complete model answers are cached, keyed by provider,
+                          model, generation options and prompt
+                          Default: ${DEFAULT_CACHE_DIR}
+  --audit-log <file>      JSONL file every prompt and response is appended to
+                          Default: ${DEFAULT_AUDIT_LOG_PATH} (look calls up with bun run audit)
+  --export-batch-jobs <file>
+                          Write every pending batch to an OpenAI Batch API JSONL file
+                          instead of sending it (OpenAI and OpenAI-compatible models)
+  --import-batch-results <file>
+                          Fill the checkpoints and output files from the batch API
+                          results JSONL instead of sending requests
+  --dry-run               Render and save the prompts of every pending batch without
+                          calling the model, and estimate tokens and cost per step
+  --prompts-dir <dir>     Where --dry-run writes the prompts
+                          Default: ${DEFAULT_PROMPTS_DIR}
+  --input-dir <dir>       Where the source files (<target>_train.xlsx, <target>_test.xlsx) are
+                          Default: ${DEFAULT_INPUT_DIR}
   -h, --help              Show this help message
 `);
     process.exit(0);
   }
 
+  // A dry run leaves every file as it is
+  if (values['dry-run'] && values['clear-checkpoints']) {
+    console.error('❌ --dry-run can\'t be combined with --clear-checkpoints');
+    process.exit(1);
+  }
+
   // Clear checkpoints if requested
   if (values['clear-checkpoints']) {
     clearCheckpoints();
   }
 
-  const modelType = values.model as ModelType || 'gemini-2.0-flash';
-  const validModels: ModelType[] = ['gpt-5', 'gemini-2.0-flash', 'gemini-2.5-pro'];
+  const modelType = values.model as string || 'gemini-2.0-flash';
+  const modelConfig = findModelConfig(modelType);
 
-  if (!validModels.includes(modelType)) {
+  if (!modelConfig) {
     console.error(`❌ Invalid model: ${modelType}`);
-    console.log(`Valid models: ${validModels.join(', ')}`);
+    console.log(`Valid models: ${getModelIds().join(', ')}, local:<name> (see config/models.json)`);
     process.exit(1);
   }
 
-  const model = getModel(modelType);
-  const modelName = getModelDisplayName(modelType);
+  const outputMode = values['output-mode'] as OutputMode;
+  if (!OUTPUT_MODES.includes(outputMode)) {
+    console.error(`❌ Invalid output mode: ${outputMode}`);
+    console.log(`Valid output modes: ${OUTPUT_MODES.join(', ')}`);
+    process.exit(1);
+  }
+
+  const labelSetName = values['label-set'] as string;
+  if (!LABEL_SETS[labelSetName]) {
+    console.error(`❌ Invalid label set: ${labelSetName}`);
+    console.log(`Valid label sets: ${Object.keys(LABEL_SETS).join(', ')}`);
+    process.exit(1);
+  }
+  const variants = [...new Set((values.variant as string[] | undefined) ?? [])];
+  if (variants.length > 0 && values['prompt-version']) {
+    console.error('❌ Use either --prompt-version or --variant, not both (variants are prompt versions)');
+    process.exit(1);
+  }
+  const promptVersions = variants.length > 0 ? variants : [values['prompt-version'] as string | undefined ?? DEFAULT_PROMPT_VERSION];
+  const invalidVersion = promptVersions.find(version => !getPromptVersions().includes(version));
+  if (invalidVersion) {
+    console.error(`❌ Invalid ${variants.length > 0 ? 'variant' : 'prompt version'}: ${invalidVersion}`);
+    console.log(`Valid prompt versions: ${getPromptVersions().join(', ')}`);
+    process.exit(1);
+  }
+  const language = findLanguage(values.language as string);
+  if (!language) {
+    console.error(`❌ Invalid language: ${values.language}`);
+    console.log(`Valid languages: ${Object.keys(LANGUAGES).join(', ')}`);
+    process.exit(1);
+  }
+  const extraLanguages: Language[] = [];
+  for (const value of (values['extra-language'] as string[] | undefined) ?? []) {
+    const extraLanguage = findLanguage(value);
+    if (!extraLanguage) {
+      console.error(`❌ Invalid extra language: ${value}`);
+      console.log(`Valid languages: ${Object.keys(LANGUAGES).join(', ')}`);
+      process.exit(1);
+    }
+    if (extraLanguage === language) {
+      console.error(`❌ ${extraLanguage.name} is already the language of the run, it can't be an extra language too`);
+      process.exit(1);
+    }
+    if (!extraLanguages.includes(extraLanguage)) {
+      extraLanguages.push(extraLanguage);
+    }
+  }
+  const samples = parsePositiveInt(values.samples as string | undefined, 'samples') ?? 1;
+  const labelSet = getLabelSet(labelSetName);
+  const steps = values.steps as string[] | undefined;
+  // One run per variant, or a single run without a variant
+  const runs = promptVersions.map(promptVersion => {
+    const allTasks = getAnnotationTasks(labelSet, { samples, promptVersion, extraLanguages });
+    const invalidStep = steps?.find(step => !allTasks.some(task => task.name === step));
+    if (invalidStep) {
+      console.error(`❌ Invalid step: ${invalidStep}`);
+      console.log(`Valid steps: ${allTasks.map(task => task.name).join(', ')}`);
+      process.exit(1);
+    }
+    const tasks = steps ? allTasks.filter(task => steps.some(step => isTaskOfStep(task, step))) : allTasks;
+    return {
+      promptVersion,
+      variant: variants.length > 0 ? promptVersion : undefined,
+      tasks,
+      everyStep: tasks.length === allTasks.length
+    };
+  });
+  const splits = (values.splits as string[] | undefined) ?? ['train', 'test'];
+  const invalidSplit = splits.find(split => split !== 'train' && split !== 'test');
+  if (invalidSplit) {
+    console.error(`❌ Invalid split: ${invalidSplit} (expected train or test)`);
+    process.exit(1);
+  }
+  const fewShotCount = parseNonNegativeInt(values['few-shot'] as string, 'few-shot')!;
+
+  configureRateLimits({
+    maxConcurrency: parsePositiveInt(values.concurrency as string | undefined, 'concurrency'),
+    requestsPerMinute: parsePositiveInt(values.rpm as string | undefined, 'rpm'),
+    tokensPerMinute: parsePositiveInt(values.tpm as string | undefined, 'tpm')
+  });
+  configureRetryPolicy({
+    maxAttempts: parsePositiveInt(values['max-attempts'] as string | undefined, 'max-attempts'),
+    baseDelayMs: parsePositiveInt(values['retry-delay'] as string | undefined, 'retry-delay'),
+    maxDelayMs: parsePositiveInt(values['max-retry-delay'] as string | undefined, 'max-retry-delay')
+  });
+  setCostBudget(parsePositiveNumber(values['max-cost'] as string | undefined, 'max-cost'));
+  configureResponseCache({ enabled: !values['no-cache'], dir: values['cache-dir'] as string });
+  configureAuditLog({ path: values['audit-log'] as string, command: 'process' });
+  const shutdownTimeout = parsePositiveInt(values['shutdown-timeout'] as string | undefined, 'shutdown-timeout');
+  installShutdownHandlers({ timeoutMs: shutdownTimeout && shutdownTimeout * 1000 });
+
+  const exportPath = values['export-batch-jobs'] as string | undefined;
+  const importPath = values['import-batch-results'] as string | undefined;
+  if (exportPath && importPath) {
+    console.error('❌ Use either --export-batch-jobs or --import-batch-results, not both');
+    process.exit(1);
+  }
+  if (values['dry-run'] && (exportPath || importPath)) {
+    console.error('❌ --dry-run can\'t be combined with --export-batch-jobs or --import-batch-results');
+    process.exit(1);
+  }
+  if (exportPath && !BATCH_JOB_PROVIDERS.includes(modelConfig.provider)) {
+    console.error(`❌ Batch jobs can't be exported for ${modelConfig.id} (provider ${modelConfig.provider})`);
+    console.log(`Supported providers: ${BATCH_JOB_PROVIDERS.join(', ')}`);
+    process.exit(1);
+  }
+  if (importPath && !fs.existsSync(importPath)) {
+    console.error(`❌ Batch results file not found: ${importPath}`);
+    process.exit(1);
+  }
+  const batchJobs: BatchJobs | undefined = exportPath
+    ? { mode: 'export', modelConfig, requests: [] }
+    : importPath
+      ? { mode: 'import', results: readBatchJobResults(importPath, { model: modelConfig.id, language: language.code }), imported: new Set() }
+      : undefined;
+  const dryRun = values['dry-run'] ? createDryRun(modelConfig, values['prompts-dir'] as string) : undefined;
+
+  const model = getModel(modelConfig);
+  const modelName = modelConfig.displayName;
 
-  console.log(`\n🤖 Using model: ${modelName}\n`);
+  console.log(`\n🤖 Using model: ${modelName}`);
+  console.log(`🏷️ Label set: ${labelSetName}`);
+  console.log(`🌐 Language: ${language.name}${extraLanguages.length > 0 ? ` (explanations also in ${extraLanguages.map(extra => extra.name).join(', ')})` : ''}`);
+  for (const { promptVersion, variant, tasks } of runs) {
+    console.log(`📝 ${variant ? `Variant ${variant}` : 'Prompts'}: ${promptVersion} (${tasks.map(task => `${task.name} ${task.promptTemplate.hash}`).join(', ')})`);
+  }
+  console.log(`🧾 Audit log: ${getAuditLogPath()} (run ${getAuditRunId()})`);
+  if (samples > 1) {
+    console.log(`🗳️ Classifying every row ${samples} times and keeping the majority label`);
+  }
+  console.log();
 
-  const trainTestDir = "/Users/aluisioamorim/Code/AluisioDev/label-explainer/train_test";
+  const trainTestDir = values['input-dir'] as string;
+  if (!fs.existsSync(trainTestDir)) {
+    console.error(`❌ Input directory not found: ${trainTestDir}`);
+    process.exit(1);
+  }
   const files = fs.readdirSync(trainTestDir);
 
-  const allTargets = ["bolsonaro", "cloroquina", "coronavac", "globo", "igreja", "lula"];
-  const targets = values.targets as string[] || allTargets;
+  const targets = values.targets as string[] || getTargetIds();
 
   // Validate targets
   for (const target of targets) {
-    if (!allTargets.includes(target)) {
+    if (!findTarget(target)) {
       console.error(`❌ Invalid target: ${target}`);
-      console.log(`Valid targets: ${allTargets.join(', ')}`);
+      console.log(`Valid targets: ${getTargetIds().join(', ')} (see config/targets.json)`);
       process.exit(1);
     }
   }
@@ -133,23 +472,82 @@ Options:
   console.log(`📋 Processing targets: ${targets.join(', ')}\n`);
 
   for (const target of targets) {
+    if (isShuttingDown()) {
+      break;
+    }
+    if (isBudgetExhausted()) {
+      console.log(`\n💸 Cost budget reached, skipping remaining targets`);
+      break;
+    }
+
     console.log(`\n🎯 Processing ${target.toUpperCase()} datasets with ${modelName}...`);
 
     const trainFile = files.find(f => f.includes(target) && f.includes("train"));
     const testFile = files.find(f => f.includes(target) && f.includes("test"));
 
-    if (trainFile) {
-      const trainPath = path.join(trainTestDir, trainFile);
-      await processDataset(model, modelType, target, trainPath, true);
+    const trainPath = trainFile ? path.join(trainTestDir, trainFile) : undefined;
+    const testPath = testFile ? path.join(trainTestDir, testFile) : undefined;
+
+    // Every variant annotates the same rows
+    for (const { variant, tasks, everyStep } of runs) {
+      if (isShuttingDown()) {
+        break;
+      }
+      const trainOutputPath = getProcessedFileName(modelConfig, target, 'train', language.name, variant);
+
+      if (trainPath && splits.includes('train')) {
+        const fewShot = await loadFewShot(trainPath, labelSet, testPath, fewShotCount);
+        await processDataset(model, modelConfig, target, trainPath, true, language, outputMode, tasks, everyStep, variant, fewShot, batchJobs, dryRun);
+      }
+
+      if (testPath && splits.includes('test') && !isShuttingDown()) {
+        // The processed training file also has the human label explanations,
+        // whether it was written now or by an earlier run
+        const poolPath = fs.existsSync(trainOutputPath) ? trainOutputPath : trainPath;
+        const fewShot = poolPath ? await loadFewShot(poolPath, labelSet, testPath, fewShotCount) : undefined;
+        await processDataset(model, modelConfig, target, testPath, false, language, outputMode, tasks, everyStep, variant, fewShot, batchJobs, dryRun);
+      }
     }
+  }
 
-    if (testFile) {
-      const testPath = path.join(trainTestDir, testFile);
-      await processDataset(model, modelType, target, testPath, false);
+  if (isShuttingDown()) {
+    printUsageSummary();
+    printCacheSummary();
+    // Checkpoints are what the resumed run starts from, so they must not be cleared
+    const resumeArgs = args.filter(arg => arg !== '-c' && arg !== '--clear-checkpoints');
+    console.log(`\n🛑 Interrupted: answered batches are in the checkpoints and output files. Resume with:`);
+    console.log(`   ${formatResumeCommand('bun run process --', resumeArgs)}`);
+    process.exitCode = 130;
+    return;
+  }
+  if (dryRun) {
+    printDryRunSummary(dryRun);
+    return;
+  }
+  if (batchJobs?.mode === 'export') {
+    writeBatchJobRequests(exportPath!, batchJobs.requests);
+    console.log(`\n📦 Exported ${batchJobs.requests.length} batch requests to ${exportPath}`);
+    console.log(`   Submit it to the provider's batch API, then run again with --import-batch-results <results.jsonl>`);
+    return;
+  }
+  if (batchJobs?.mode === 'import') {
+    const unmatched = [...batchJobs.results.keys()].filter(id => !batchJobs.imported.has(id));
+    console.log(`\n📥 Imported ${batchJobs.imported.size} of ${batchJobs.results.size} batch results from ${importPath}`);
+    if (unmatched.length > 0) {
+      console.warn(`⚠️ ${unmatched.length} results match no pending batch (already imported, other targets or options, or other prompts): ${unmatched.slice(0, 5).join(', ')}${unmatched.length > 5 ? ', ...' : ''}`);
     }
   }
 
+  printUsageSummary();
+  printCacheSummary();
   console.log(`\n🎉 All datasets processed with ${modelName}!`);
 };
 
-main()
+// The wizard needs someone at the terminal; piped runs keep the defaults
+const args = process.argv.slice(2);
+const run = args.length === 0 && process.stdin.isTTY ? runWizard(main) : main(args);
+// A failed run exits with an error code, so scripts chaining runs stop there
+run.catch(error => {
+  console.error(error instanceof CheckpointConflictError ? `❌ ${error.message}` : error);
+  process.exit(1);
+});
@@ -0,0 +1,67 @@
+import type { FewShotExample } from "../services/few-shot";
+import type { OutputMode } from "../services/response-parser";
+import { getLabelNames, type LabelSet } from "../utils/label-sets";
+import type { Target } from "../utils/targets";
+
+// Tabs and line breaks inside a tweet would shift TSV columns and rows, so
+// fields are collapsed onto a single line before they are put in a prompt.
+export const toTsvField = (value: string): string => {
+  return value.replace(/\s+/g, ' ').trim();
+};
+
+export const toJsonLines = (rows: Array<Record<string, unknown>>): string => {
+  return rows.map(row => JSON.stringify(row)).join("\n");
+};
+
+// "for" or "against" / "for", "against" or "neutral"
+export const formatLabelChoices = (labelSet: LabelSet): string => {
+  const names = getLabelNames(labelSet).map(name => `"${name}"`);
+  return names.length > 1 ? `${names.slice(0, -1).join(", ")} or ${names[names.length - 1]}` : names.join("");
+};
+
+export const formatLabelGuidelines = (labelSet: LabelSet, target: string): string => {
+  const fill = (value: string) => value.replaceAll("{target}", `**${target}**`);
+  return labelSet.labels.map(label => [
+    `* **"${label.name}" Label:** ${fill(label.definition)}`,
+    ...label.guidelines.map(guideline => `  - ${fill(guideline)}`)
+  ].join("\n")).join("\n\n");
+};
+
+// "**lula** is Lula: Luiz Inácio Lula da Silva, ... Also referred to as ... Related hashtags: ..."
+export const formatTargetContext = (target: Target): string => {
+  return [
+    `**${target.id}** is ${target.displayName}: ${target.description}`,
+    ...(target.aliases.length > 0 ? [`Also referred to as ${target.aliases.map(alias => `"${alias}"`).join(", ")}.`] : []),
+    ...(target.hashtags.length > 0 ? [`Related hashtags: ${target.hashtags.join(", ")}.`] : [])
+  ].join(" ");
+};
+
+// Ends with a blank line to go before the next section, or is empty for
+// targets without guidelines of their own
+export const formatTargetGuidelines = (target: Target): string => {
+  if (target.guidelines.length === 0) {
+    return "";
+  }
+  return `**Guidelines specific to ${target.id}:**
+
+${target.guidelines.map(guideline => `* ${guideline}`).join("\n")}
+
+`;
+};
+
+// Examples carry no id, so they can't be mistaken for rows of the batch
+export const formatExamples = (examples: FewShotExample[], outputMode: OutputMode): string => {
+  const heading = outputMode === 'structured'
+    ? "**Labeled Examples (JSON, one per line):**"
+    : "**Labeled Examples (text[TAB]label[TAB]explanation, when available):**";
+  const lines = outputMode === 'structured'
+    ? toJsonLines(examples.map(({ text, label, explanation }) => explanation ? { text, label, explanation } : { text, label }))
+    : examples.map(({ text, label, explanation }) =>
+      [toTsvField(text), label, ...(explanation ? [toTsvField(explanation)] : [])].join("\t")
+    ).join("\n");
+
+  return `${heading}
+These tweets were labeled by human annotators. Use them to calibrate how the labels are applied; do not include them in your output.
+${lines}
+`;
+};
@@ -0,0 +1,76 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { getPromptVersions, loadPromptTemplate, renderPromptTemplate, requestsEvidence, type PromptTemplate } from "./templates";
+
+const template: PromptTemplate = {
+  id: "test/classify",
+  hash: "",
+  files: {
+    tsv: "Classify for {{target}}.\n{{guidelines}}\n\n{{tweets}}\n",
+    guidelines: "Answer in English.\n",
+    "guidelines.pt": "Responda em português.\n",
+    loop: "{{loop}}\n"
+  }
+};
+
+describe("renderPromptTemplate", () => {
+  test("fills in values and included files, in the language's variant when there is one", () => {
+    const values = { target: "Lula", tweets: "2\tfala {{target}}" };
+    expect(renderPromptTemplate(template, "tsv", values)).toBe("Classify for Lula.\nAnswer in English.\n\n2\tfala {{target}}");
+    expect(renderPromptTemplate(template, "tsv", values, "pt")).toContain("Responda em português.");
+    expect(renderPromptTemplate(template, "tsv", values, "es")).toContain("Answer in English.");
+  });
+
+  test("rejects unknown placeholders, missing files and files including themselves", () => {
+    expect(() => renderPromptTemplate(template, "tsv", { target: "Lula" })).toThrow("Unknown placeholder {{tweets}} in test/classify/tsv.md");
+    expect(() => renderPromptTemplate(template, "structured", {})).toThrow("Prompt template test/classify has no structured.md");
+    expect(() => renderPromptTemplate(template, "loop", {})).toThrow("Unknown placeholder {{loop}}");
+  });
+});
+
+describe("loadPromptTemplate", () => {
+  let promptsDir: string;
+  const writeTemplate = (version: string, files: Record<string, string>) => {
+    const dir = path.join(promptsDir, version, "classify");
+    fs.mkdirSync(dir, { recursive: true });
+    Object.entries(files).forEach(([name, content]) => fs.writeFileSync(path.join(dir, `${name}.md`), content));
+  };
+
+  beforeAll(() => {
+    promptsDir = fs.mkdtempSync(path.join(os.tmpdir(), "prompts-"));
+    process.env.PROMPTS_DIR = promptsDir;
+    writeTemplate("test-a", { tsv: "{{tweets}}\n", guidelines: "Seja breve.\n" });
+    writeTemplate("test-b", { tsv: "{{tweets}}\n", guidelines: "Seja breve!\n" });
+    writeTemplate("test-c", { guidelines: "Seja breve.\n", tsv: "{{tweets}}\n" });
+  });
+
+  afterAll(() => {
+    delete process.env.PROMPTS_DIR;
+    fs.rmSync(promptsDir, { recursive: true, force: true });
+  });
+
+  test("hashes the content of every file, so edits to a version are noticed", () => {
+    const a = loadPromptTemplate("test-a", "classify");
+    expect(a).toMatchObject({ id: "test-a/classify", files: { tsv: "{{tweets}}\n", guidelines: "Seja breve.\n" } });
+    expect(loadPromptTemplate("test-b", "classify").hash).not.toBe(a.hash);
+    expect(loadPromptTemplate("test-c", "classify").hash).toBe(a.hash);
+  });
+
+  test("lists the versions of PROMPTS_DIR and rejects unknown ones", () => {
+    expect(getPromptVersions()).toEqual(["test-a", "test-b", "test-c"]);
+    expect(() => loadPromptTemplate("test-d", "classify")).toThrow("Prompt template not found");
+  });
+});
+
+describe("shipped templates", () => {
+  test("only v3 asks for evidence", () => {
+    expect(getPromptVersions()).toEqual(["v1", "v2", "v3"]);
+    for (const version of getPromptVersions()) {
+      for (const task of ["classify", "explain"]) {
+        expect(requestsEvidence(loadPromptTemplate(version, task))).toBe(version === "v3");
+      }
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+// Prompt wording lives in <version>/<task>/ under this directory: one file per
+// output mode (structured.md, tsv.md) plus the parts they include. Any file may
+// have a variant for one output language, e.g. guidelines.pt.md. PROMPTS_DIR
+// points to another directory.
+export const PROMPTS_DIR = './config/prompts';
+// v2 adds what the target catalog knows about the target, v3 asks for evidence spans
+export const DEFAULT_PROMPT_VERSION = 'v3';
+// What prompts were before they had versions
+export const ORIGINAL_PROMPT_VERSION = 'v1';
+
+export interface PromptTemplate {
+  // "v1/classify"
+  id: string;
+  // Content hash of every file of the template, so edits to a version are noticed too
+  hash: string;
+  // File contents by name, without the .md extension ("guidelines", "guidelines.pt")
+  files: Record<string, string>;
+}
+
+const getPromptsDir = (): string => process.env.PROMPTS_DIR || PROMPTS_DIR;
+
+export const getPromptVersions = (): string[] => {
+  const dir = getPromptsDir();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort();
+};
+
+// Templates with an evidence.md ask for the quotes behind each explanation, with
+// their offsets in the tweet
+export const requestsEvidence = (template: PromptTemplate): boolean => Object.hasOwn(template.files, 'evidence');
+
+const templates = new Map<string, PromptTemplate>();
+
+export const loadPromptTemplate = (version: string, task: string): PromptTemplate => {
+  const id = `${version}/${task}`;
+  const loaded = templates.get(id);
+  if (loaded) {
+    return loaded;
+  }
+
+  const templateDir = path.join(getPromptsDir(), version, task);
+  if (!fs.existsSync(templateDir)) {
+    throw new Error(`Prompt template not found: ${templateDir}`);
+  }
+  const names = fs.readdirSync(templateDir).filter(name => name.endsWith('.md')).sort();
+  const files = Object.fromEntries(names.map(name =>
+    [path.basename(name, '.md'), fs.readFileSync(path.join(templateDir, name), 'utf-8')]
+  ));
+  const hash = crypto.createHash('sha256')
+    .update(names.map(name => `${name}\n${files[path.basename(name, '.md')]}`).join('\0'))
+    .digest('hex')
+    .slice(0, 12);
+
+  const template: PromptTemplate = { id, hash, files };
+  templates.set(id, template);
+  return template;
+};
+
+// Replaces every {{name}} with the value of that name or, when there is none,
+// with the template's file of that name. Files written for the language code
+// are used over the others. Values are inserted as they are, so placeholders
+// in tweets are left alone.
+export const renderPromptTemplate = (
+  template: PromptTemplate,
+  file: string,
+  values: Record<string, string>,
+  languageCode?: string
+): string => {
+  const getFile = (name: string): string | undefined =>
+    (languageCode !== undefined ? template.files[`${name}.${languageCode}`] : undefined) ?? template.files[name];
+
+  const render = (name: string, including: string[]): string => {
+    const content = getFile(name);
+    if (content === undefined) {
+      throw new Error(`Prompt template ${template.id} has no ${name}.md`);
+    }
+    return content.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => {
+      if (Object.hasOwn(values, key)) {
+        return values[key];
+      }
+      if (getFile(key) !== undefined && !including.includes(key)) {
+        return render(key, [...including, key]).trim();
+      }
+      throw new Error(`Unknown placeholder {{${key}}} in ${template.id}/${name}.md`);
+    });
+  };
+  // Files end with a line break, prompts don't
+  return render(file, [file]).replace(/\n$/, '');
+};
@@ -1,11 +1,21 @@
 import ExcelJS from "exceljs";
 import fs from "fs";
 import { parseArgs } from "util";
-import { generateText } from "ai";
-import { getModel, getModelDisplayName, type ModelType, type LanguageModel } from "./utils/models";
-import { getExplanationPrompt } from "./prompts/explanation";
-import { getClassificationPrompt } from "./prompts/classification";
-import { cleanTsvOutput, BATCH_SIZE } from "./utils/common";
+import { findModelConfig, findModelConfigBySlug, formatModelVariant, getModel, type ModelConfig } from "./utils/models";
+import { requestWithSplitting, type TaskContext } from "./services/batch-processor";
+import { getHeaderColumns, locateTaskColumns, readPromptTemplates, toCellValue, type SourceRow } from "./services/excel";
+import { OUTPUT_MODES, type OutputMode } from "./services/response-parser";
+import { configureAuditLog, DEFAULT_AUDIT_LOG_PATH, getAuditLogPath, getAuditRunId } from "./services/audit-log";
+import { configureResponseCache, DEFAULT_CACHE_DIR, printCacheSummary } from "./services/response-cache";
+import { configureRetryPolicy } from "./services/retry";
+import { configureRateLimits } from "./services/scheduler";
+import { printUsageSummary, setCostBudget } from "./services/usage";
+import { DEFAULT_PROMPT_VERSION, getPromptVersions } from "./prompts/templates";
+import { getAnnotationTasks, getColumnReportName, type AnnotationTask } from "./tasks";
+import { DEFAULT_LABEL_SET, getLabelSet, LABEL_SETS } from "./utils/label-sets";
+import { DEFAULT_LANGUAGE, findLanguage, LANGUAGES, type Language } from "./utils/languages";
+import { getTargetIds } from "./utils/targets";
+import { BATCH_SIZE, parsePositiveInt, parsePositiveNumber } from "./utils/common";
 
 interface MissingCellInfo {
   rowNumber: number;
@@ -32,205 +42,106 @@ interface MissingReport {
   reports: FileReport[];
 }
 
-const extractModelAndTarget = (filePath: string): { model: ModelType; target: string; dataset: 'train' | 'test' } | null => {
+// The model is found by the file name slug, first among the models given with
+// --model (unregistered local models can't be told from their file name alone)
+// and then in the registry. Files named before languages were part of the name
+// are taken to be in the default language.
+const extractModelAndTarget = (
+  filePath: string,
+  extraModels: ModelConfig[],
+  defaultLanguage: Language
+): { model: ModelConfig; target: string; dataset: 'train' | 'test'; language: Language; variant?: string } | null => {
   const fileName = filePath.split('/').pop();
   if (!fileName) return null;
 
-  // Pattern: processed-{model}-{target}-{dataset}.xlsx
-  const match = fileName.match(/processed-(.*?)-(bolsonaro|cloroquina|coronavac|globo|igreja|lula)-(train|test)\.xlsx/);
+  // Pattern: processed-{model}-{target}-{dataset}-{language}[@{variant}].xlsx (target
+  // ids have no regex special characters)
+  const match = fileName.match(new RegExp(`processed-(.*?)-(${getTargetIds().join('|')})-(train|test)(?:-([a-z]{2}))?(?:@(.+))?\\.xlsx`));
   if (!match) return null;
 
   const modelStr = match[1];
   const target = match[2];
   const dataset = match[3] as 'train' | 'test';
+  const language = match[4] ? findLanguage(match[4]) : defaultLanguage;
+  if (!language) return null;
 
-  // Map model string to ModelType
-  let modelType: ModelType;
-  if (modelStr === 'gpt-5') {
-    modelType = 'gpt-5';
-  } else if (modelStr === 'gemini-2-5-pro') {
-    modelType = 'gemini-2.5-pro';
-  } else if (modelStr === 'gemini-2-0-flash') {
-    modelType = 'gemini-2.0-flash';
-  } else {
-    return null;
-  }
+  const model = extraModels.find(config => config.slug === modelStr) ?? findModelConfigBySlug(modelStr);
+  if (!model) return null;
 
-  return { model: modelType, target, dataset };
+  return { model, target, dataset, language, variant: match[5] };
 };
 
-const explainBatchStanceLabels = async (
-  model: LanguageModel,
-  target: string,
-  batch: { text: string; label: string }[],
-  language: string = "portuguese"
-): Promise<{ explanations: Map<string, string>; rawResponse: string }> => {
-  const prompt = getExplanationPrompt({
-    target,
-    language,
-    batch
-  });
-
-  const { text: result } = await generateText({
-    ...(model.provider === 'openai' ? { temperature: 1 } : {}),
-    model,
-    prompt,
-  });
-
-  const cleanedResult = cleanTsvOutput(result);
-  const lines = cleanedResult.split('\n').filter(line => {
-    const trimmed = line.trim();
-    return trimmed && !trimmed.startsWith("text");
-  });
-
-  const explanations = new Map<string, string>();
-
-  // Match responses by index, not by text content
-  for (let i = 0; i < Math.min(lines.length, batch.length); i++) {
-    const parts = lines[i].split('\t');
-    if (parts.length >= 3) {
-      // Use original batch text as key, not the LLM's returned text
-      explanations.set(batch[i].text, parts[2]); // Map original text -> explanation
-    }
-  }
-
-  return { explanations, rawResponse: result };
-};
-
-const classifyAndExplainBatchStance = async (
-  model: LanguageModel,
-  target: string,
-  batch: { text: string }[],
-  language: string = "portuguese"
-): Promise<{ classifications: Map<string, { label: string; explanation: string }>; rawResponse: string }> => {
-  const prompt = getClassificationPrompt({
-    target,
-    language,
-    batch
-  });
-
-  const { text: result } = await generateText({
-    model,
-    prompt,
-  });
-
-  const cleanedResult = cleanTsvOutput(result);
-  const lines = cleanedResult.split('\n').filter(line => {
-    const trimmed = line.trim();
-    return trimmed && !trimmed.startsWith("text");
-  });
-
-  const classifications = new Map<string, { label: string; explanation: string }>();
-
-  // Match responses by index, not by text content
-  for (let i = 0; i < Math.min(lines.length, batch.length); i++) {
-    const parts = lines[i].split('\t');
-    if (parts.length >= 3) {
-      // Use original batch text as key, not the LLM's returned text
-      classifications.set(batch[i].text, {
-        label: parts[1],
-        explanation: parts[2]
-      });
-    }
-  }
-
-  return { classifications, rawResponse: result };
+// Looks up the exchange of a row in the audit log, in the file's language and prompt variant
+const formatAuditCommand = (context: Omit<TaskContext, 'task'>, task: AnnotationTask<any, any>, rowNumber: number): string => {
+  return [
+    `bun run audit -- -m ${context.modelType} -t ${context.target} -s ${context.split} -r ${rowNumber} --step ${task.name}`,
+    ...(context.language !== DEFAULT_LANGUAGE ? [`--language ${context.language}`] : []),
+    ...(context.variant ? [`--variant ${context.variant}`] : [])
+  ].join(' ');
 };
 
+// Runs every task whose columns are missing in the rows. Results are the new
+// cell values of each row, keyed by column number.
 const processBatch = async (
-  model: LanguageModel,
-  target: string,
-  batchRows: Array<{
-    rowNumber: number;
-    text: string;
-    humanLabel?: string;
-    missingColumns: string[];
-  }>
+  context: Omit<TaskContext, 'task'>,
+  tasks: AnnotationTask<any, any>[],
+  worksheet: ExcelJS.Worksheet,
+  batchRows: MissingCellInfo[]
 ): Promise<{
-  results: Map<number, {
-    humanExplanation?: string;
-    llmLabel?: string;
-    llmExplanation?: string;
-  }>;
+  results: Map<number, Map<number, unknown>>;
   errors: Map<number, string[]>;
 }> => {
-  const results = new Map<number, any>();
+  const results = new Map<number, Map<number, unknown>>();
   const errors = new Map<number, string[]>();
 
-  // Separate rows needing human explanations vs LLM classifications
-  const needsHumanExplanation = batchRows.filter(
-    r => r.missingColumns.includes("human-label-explanation") && r.humanLabel
-  );
-  const needsLlmClassification = batchRows.filter(
-    r => r.missingColumns.includes("llm-label") || r.missingColumns.includes("llm-label-explanation")
-  );
+  const addError = (rowNumber: number, message: string) => {
+    if (!errors.has(rowNumber)) {
+      errors.set(rowNumber, []);
+    }
+    errors.get(rowNumber)!.push(message);
+  };
 
-  // Process human explanations in batch
-  if (needsHumanExplanation.length > 0) {
-    try {
-      console.log(`    Generating ${needsHumanExplanation.length} human label explanations...`);
-      const batch = needsHumanExplanation.map(r => ({ text: r.text, label: r.humanLabel! }));
-      const { explanations, rawResponse } = await explainBatchStanceLabels(model, target, batch, "portuguese");
-
-      for (const row of needsHumanExplanation) {
-        const explanation = explanations.get(row.text);
-        if (explanation) {
-          if (!results.has(row.rowNumber)) {
-            results.set(row.rowNumber, {});
-          }
-          results.get(row.rowNumber)!.humanExplanation = explanation;
-        } else {
-          if (!errors.has(row.rowNumber)) {
-            errors.set(row.rowNumber, []);
-          }
-          const errorMsg = `Failed to get human explanation from batch response. Raw API response: ${rawResponse.substring(0, 500)}${rawResponse.length > 500 ? '...' : ''}`;
-          errors.get(row.rowNumber)!.push(errorMsg);
-        }
+  for (const task of tasks) {
+    // Rows missing any of the task's columns that have the inputs it needs
+    const columnNames = task.columns.map(getColumnReportName);
+    const inputs: SourceRow[] = [];
+    for (const missingRow of batchRows) {
+      if (!missingRow.missingColumns.some(column => columnNames.includes(column))) {
+        continue;
       }
-    } catch (error) {
-      const errorMsg = `Failed to generate human explanations batch: ${error}`;
-      console.error(`    ⚠️  ${errorMsg}`);
-      for (const row of needsHumanExplanation) {
-        if (!errors.has(row.rowNumber)) {
-          errors.set(row.rowNumber, []);
-        }
-        errors.get(row.rowNumber)!.push(errorMsg);
+      const input = task.readInput(worksheet.getRow(missingRow.rowNumber));
+      if (input) {
+        inputs.push({ ...input, id: missingRow.rowNumber } as SourceRow);
       }
     }
-  }
 
-  // Process LLM classifications in batch
-  if (needsLlmClassification.length > 0) {
+    if (inputs.length === 0) {
+      continue;
+    }
+
     try {
-      console.log(`    Generating ${needsLlmClassification.length} LLM classifications and explanations...`);
-      const batch = needsLlmClassification.map(r => ({ text: r.text }));
-      const { classifications, rawResponse } = await classifyAndExplainBatchStance(model, target, batch, "portuguese");
-
-      for (const row of needsLlmClassification) {
-        const classification = classifications.get(row.text);
-        if (classification) {
-          if (!results.has(row.rowNumber)) {
-            results.set(row.rowNumber, {});
+      console.log(`    Generating ${inputs.length} ${task.description}...`);
+      const result = await requestWithSplitting({ ...context, task }, inputs, `${inputs.length} ${task.description}`);
+
+      // Match responses by row id, not by text content
+      const records = new Map(result.records.map(record => [record.id, record]));
+      for (const input of inputs) {
+        const record = records.get(input.id);
+        if (record) {
+          if (!results.has(input.id)) {
+            results.set(input.id, new Map());
           }
-          results.get(row.rowNumber)!.llmLabel = classification.label;
-          results.get(row.rowNumber)!.llmExplanation = classification.explanation;
-        } else {
-          if (!errors.has(row.rowNumber)) {
-            errors.set(row.rowNumber, []);
+          for (const { field, column } of task.columns) {
+            results.get(input.id)!.set(column, record[field]);
           }
-          const errorMsg = `Failed to get LLM classification from batch response. Raw API response: ${rawResponse.substring(0, 500)}${rawResponse.length > 500 ? '...' : ''}`;
-          errors.get(row.rowNumber)!.push(errorMsg);
+        } else {
+          addError(input.id, `Failed to get ${task.description} from batch response (see the exchange with: ${formatAuditCommand(context, task, input.id)})`);
         }
       }
     } catch (error) {
-      const errorMsg = `Failed to generate LLM classifications batch: ${error}`;
+      const errorMsg = `Failed to generate ${task.description} batch: ${error}`;
       console.error(`    ⚠️  ${errorMsg}`);
-      for (const row of needsLlmClassification) {
-        if (!errors.has(row.rowNumber)) {
-          errors.set(row.rowNumber, []);
-        }
-        errors.get(row.rowNumber)!.push(errorMsg);
-      }
+      inputs.forEach(input => addError(input.id, errorMsg));
     }
   }
 
@@ -240,11 +151,8 @@ const processBatch = async (
 const updateExcelRow = async (
   filePath: string,
   rowNumber: number,
-  updates: {
-    humanExplanation?: string;
-    llmLabel?: string;
-    llmExplanation?: string;
-  }
+  updates: Map<number, unknown>,
+  headers: Map<number, string>
 ): Promise<void> => {
   const workbook = new ExcelJS.Workbook();
   await workbook.xlsx.readFile(filePath);
@@ -255,15 +163,15 @@ const updateExcelRow = async (
   }
 
   const row = worksheet.getRow(rowNumber);
-
-  if (updates.humanExplanation) {
-    row.getCell(7).value = updates.humanExplanation; // Column 7: human-label-explanation
-  }
-  if (updates.llmLabel) {
-    row.getCell(8).value = updates.llmLabel; // Column 8: llm-label
-  }
-  if (updates.llmExplanation) {
-    row.getCell(9).value = updates.llmExplanation; // Column 9: llm-label-explanation
+  for (const [column, value] of updates) {
+    if (value !== undefined && value !== "") {
+      row.getCell(column).value = toCellValue(value);
+      // Columns of extra languages may be new to the file
+      const header = worksheet.getRow(1).getCell(column);
+      if (!header.value && headers.has(column)) {
+        header.value = headers.get(column)!;
+      }
+    }
   }
 
   await workbook.xlsx.writeFile(filePath);
@@ -287,6 +195,59 @@ const main = async () => {
         type: 'string',
         short: 'n'
       },
+      'label-set': {
+        type: 'string',
+        default: DEFAULT_LABEL_SET
+      },
+      'output-mode': {
+        type: 'string',
+        default: 'structured'
+      },
+      'prompt-version': {
+        type: 'string',
+        default: DEFAULT_PROMPT_VERSION
+      },
+      language: {
+        type: 'string',
+        default: DEFAULT_LANGUAGE
+      },
+      concurrency: {
+        type: 'string'
+      },
+      rpm: {
+        type: 'string'
+      },
+      tpm: {
+        type: 'string'
+      },
+      'max-attempts': {
+        type: 'string'
+      },
+      'retry-delay': {
+        type: 'string'
+      },
+      'max-retry-delay': {
+        type: 'string'
+      },
+      'max-cost': {
+        type: 'string'
+      },
+      'no-cache': {
+        type: 'boolean'
+      },
+      'cache-dir': {
+        type: 'string',
+        default: DEFAULT_CACHE_DIR
+      },
+      'audit-log': {
+        type: 'string',
+        default: DEFAULT_AUDIT_LOG_PATH
+      },
+      model: {
+        type: 'string',
+        short: 'm',
+        multiple: true
+      },
       help: {
         type: 'boolean',
         short: 'h'
@@ -303,15 +264,47 @@ Options:
                           Default: missing_report.json
   -f, --files <files>     Specific files to process (relative paths from report)
                           Can be specified multiple times
-                          Example: -f gpt-5/processed-gpt-5-bolsonaro-test.xlsx
+                          Example: -f gpt-5/processed-gpt-5-bolsonaro-test-pt.xlsx
   -n, --max-rows <num>    Maximum number of rows to process per file
                           Default: process all rows
+  -m, --model <model>     Model (local:<name>) that files were processed with, for models
+                          not in config/models.json. Can be specified multiple times
+  --label-set <name>      Labels the model may assign (${Object.keys(LABEL_SETS).join(', ')})
+                          Default: ${DEFAULT_LABEL_SET}
+  --output-mode <mode>    How batch results are requested (structured, tsv)
+                          Default: structured
+  --prompt-version <name> Prompt templates to use (${getPromptVersions().join(', ')}), the
+                          version the files were processed with; files of a prompt
+                          variant (processed-...@<name>.xlsx) always use that variant
+                          Default: ${DEFAULT_PROMPT_VERSION}
+  --language <name>       Language of files named without one (${Object.keys(LANGUAGES).join(', ')});
+                          other files are written in the language of their name
+                          Default: ${DEFAULT_LANGUAGE}
+  --concurrency <num>     Maximum requests in flight per provider
+                          Default: 4 (OpenAI, Google), 1 (local)
+  --rpm <num>             Maximum requests per minute per provider
+  --tpm <num>             Maximum estimated tokens per minute per provider
+  --max-attempts <num>    Attempts per request before a batch is marked failed
+                          Default: 3
+  --retry-delay <ms>      Base delay for exponential backoff between attempts
+                          Default: 2000
+  --max-retry-delay <ms>  Upper bound for a single backoff delay
+                          Default: 60000
+  --max-cost <usd>        Stop sending new batches once the estimated cost of
+                          this run reaches the given amount in USD
+  --no-cache              Send every request, even those answered before
+  --cache-dir <dir>       Where complete model answers are cached, keyed by provider,
+                          model, generation options and prompt
+                          Default: ${DEFAULT_CACHE_DIR}
+  --audit-log <file>      JSONL file every prompt and response is appended to
+                          Default: ${DEFAULT_AUDIT_LOG_PATH} (look calls up with bun run audit)
   -h, --help              Show this help message
 
 Examples:
   bun run retry-missing
   bun run retry-missing -- -r missing_report.json -n 10
-  bun run retry-missing -- -f gpt-5/processed-gpt-5-bolsonaro-test.xlsx
+  bun run retry-missing -- -f gpt-5/processed-gpt-5-bolsonaro-test-pt.xlsx
+  bun run retry-missing -- -m local:llama3.1:8b
 `);
     process.exit(0);
   }
@@ -319,13 +312,65 @@ Examples:
   const reportPath = values.report as string;
   const maxRowsPerFile = values['max-rows'] ? parseInt(values['max-rows'] as string) : undefined;
   const specificFiles = values.files as string[] | undefined;
+  const outputMode = values['output-mode'] as OutputMode;
+
+  if (!OUTPUT_MODES.includes(outputMode)) {
+    console.error(`❌ Invalid output mode: ${outputMode}`);
+    console.log(`Valid output modes: ${OUTPUT_MODES.join(', ')}`);
+    process.exit(1);
+  }
+
+  const labelSetName = values['label-set'] as string;
+  if (!LABEL_SETS[labelSetName]) {
+    console.error(`❌ Invalid label set: ${labelSetName}`);
+    console.log(`Valid label sets: ${Object.keys(LABEL_SETS).join(', ')}`);
+    process.exit(1);
+  }
+  const promptVersion = values['prompt-version'] as string;
+  if (!getPromptVersions().includes(promptVersion)) {
+    console.error(`❌ Invalid prompt version: ${promptVersion}`);
+    console.log(`Valid prompt versions: ${getPromptVersions().join(', ')}`);
+    process.exit(1);
+  }
+  const defaultLanguage = findLanguage(values.language as string);
+  if (!defaultLanguage) {
+    console.error(`❌ Invalid language: ${values.language}`);
+    console.log(`Valid languages: ${Object.keys(LANGUAGES).join(', ')}`);
+    process.exit(1);
+  }
+  const labelSet = getLabelSet(labelSetName);
+
+  const extraModels: ModelConfig[] = [];
+  for (const modelId of (values.model as string[] | undefined) ?? []) {
+    const config = findModelConfig(modelId);
+    if (!config) {
+      console.error(`❌ Invalid model: ${modelId} (expected a model of config/models.json or local:<name>)`);
+      process.exit(1);
+    }
+    extraModels.push(config);
+  }
+
+  configureRateLimits({
+    maxConcurrency: parsePositiveInt(values.concurrency as string | undefined, 'concurrency'),
+    requestsPerMinute: parsePositiveInt(values.rpm as string | undefined, 'rpm'),
+    tokensPerMinute: parsePositiveInt(values.tpm as string | undefined, 'tpm')
+  });
+  configureRetryPolicy({
+    maxAttempts: parsePositiveInt(values['max-attempts'] as string | undefined, 'max-attempts'),
+    baseDelayMs: parsePositiveInt(values['retry-delay'] as string | undefined, 'retry-delay'),
+    maxDelayMs: parsePositiveInt(values['max-retry-delay'] as string | undefined, 'max-retry-delay')
+  });
+  setCostBudget(parsePositiveNumber(values['max-cost'] as string | undefined, 'max-cost'));
+  configureResponseCache({ enabled: !values['no-cache'], dir: values['cache-dir'] as string });
+  configureAuditLog({ path: values['audit-log'] as string, command: 'retry-missing' });
 
   if (!fs.existsSync(reportPath)) {
     console.error(`❌ Report file not found: ${reportPath}`);
     process.exit(1);
   }
 
-  console.log(`\n📖 Reading missing report from: ${reportPath}\n`);
+  console.log(`\n📖 Reading missing report from: ${reportPath}`);
+  console.log(`🧾 Audit log: ${getAuditLogPath()} (run ${getAuditRunId()})\n`);
   const reportData: MissingReport = JSON.parse(fs.readFileSync(reportPath, 'utf-8'));
 
   console.log(`📊 Report Summary:`);
@@ -348,18 +393,23 @@ Examples:
   let totalFailed = 0;
 
   for (const fileReport of filesToProcess) {
-    const fileInfo = extractModelAndTarget(fileReport.filePath);
+    const fileInfo = extractModelAndTarget(fileReport.filePath, extraModels, defaultLanguage);
     if (!fileInfo) {
-      console.log(`⚠️  Skipping ${fileReport.relativePath}: Could not parse model/target`);
+      console.log(`⚠️  Skipping ${fileReport.relativePath}: Could not parse model/target/language (local models need --model local:<name>)`);
+      continue;
+    }
+    // Files of a prompt variant are filled with the prompts of that variant
+    if (fileInfo.variant && !getPromptVersions().includes(fileInfo.variant)) {
+      console.log(`⚠️  Skipping ${fileReport.relativePath}: prompt variant ${fileInfo.variant} not found in config/prompts/`);
       continue;
     }
 
     console.log(`\n📁 Processing: ${fileReport.relativePath}`);
-    console.log(`   Model: ${fileInfo.model}, Target: ${fileInfo.target}, Dataset: ${fileInfo.dataset}`);
+    console.log(`   Model: ${formatModelVariant(fileInfo.model.id, fileInfo.variant)}, Target: ${fileInfo.target}, Dataset: ${fileInfo.dataset}, Language: ${fileInfo.language.name}`);
     console.log(`   Rows with missing data: ${fileReport.rowsWithMissing}`);
 
     const model = getModel(fileInfo.model);
-    const modelName = getModelDisplayName(fileInfo.model);
+    const modelName = fileInfo.model.displayName;
 
     // Read the Excel file to get current data
     const workbook = new ExcelJS.Workbook();
@@ -371,6 +421,24 @@ Examples:
       continue;
     }
 
+    // Explanation columns of other languages are only filled where the report
+    // has them missing. Results go where the file has each column's header.
+    const headerColumns = getHeaderColumns(worksheet);
+    const tasks = getAnnotationTasks(labelSet, {
+      promptVersion: fileInfo.variant ?? promptVersion,
+      extraLanguages: Object.values(LANGUAGES).filter(language => language !== fileInfo.language)
+    }).map(task => ({ ...task, columns: locateTaskColumns(task.columns, headerColumns) }));
+    const headers = new Map(tasks.flatMap(task => task.columns.map(({ column, header }) => [column, header] as const)));
+
+    // Missing cells are best filled with the wording the rest of the file was written with
+    const writtenTemplates = readPromptTemplates(workbook);
+    for (const task of tasks) {
+      const written = writtenTemplates.get(task.name);
+      if (written && written.hash !== task.promptTemplate.hash) {
+        console.warn(`   ⚠️  ${task.description} of this file were written with prompt ${written.id} (${written.hash}), missing ones get ${task.promptTemplate.id} (${task.promptTemplate.hash}); see --prompt-version`);
+      }
+    }
+
     const rowsToProcess = maxRowsPerFile
       ? fileReport.missingDetails.slice(0, maxRowsPerFile)
       : fileReport.missingDetails;
@@ -385,21 +453,14 @@ Examples:
 
       console.log(`   📦 Batch ${batchNum}/${totalBatches} (${batch.length} rows)\n`);
 
-      // Prepare batch data with human labels from Excel
-      const batchData = batch.map(missingRow => {
-        const row = worksheet.getRow(missingRow.rowNumber);
-        const humanLabel = row.getCell(3).value?.toString()?.toLowerCase().trim();
-        return {
-          rowNumber: missingRow.rowNumber,
-          text: missingRow.text,
-          humanLabel,
-          missingColumns: missingRow.missingColumns
-        };
-      });
-
       try {
-        // Process entire batch in one or two LLM calls
-        const { results: batchResults, errors: batchErrors } = await processBatch(model, fileInfo.target, batchData);
+        // Inputs are read from the worksheet, since the report only keeps a truncated copy of the text
+        const { results: batchResults, errors: batchErrors } = await processBatch(
+          { model, modelType: fileInfo.model.id, target: fileInfo.target, split: fileInfo.dataset, language: fileInfo.language.name, variant: fileInfo.variant, outputMode },
+          tasks,
+          worksheet,
+          batch
+        );
 
         // Update Excel with results
         for (const missingRow of batch) {
@@ -407,8 +468,8 @@ Examples:
           const updates = batchResults.get(missingRow.rowNumber);
           const rowErrors = batchErrors.get(missingRow.rowNumber);
 
-          if (updates && Object.keys(updates).length > 0) {
-            await updateExcelRow(fileReport.filePath, missingRow.rowNumber, updates);
+          if (updates && updates.size > 0) {
+            await updateExcelRow(fileReport.filePath, missingRow.rowNumber, updates, headers);
             console.log(`   ✅ Row ${missingRow.rowNumber}: Updated successfully`);
             totalUpdated++;
           } else {
@@ -439,6 +500,8 @@ Examples:
   console.log(`Rows attempted: ${totalProcessed}`);
   console.log(`Rows updated: ${totalUpdated}`);
   console.log(`Rows failed: ${totalFailed}`);
+  printUsageSummary();
+  printCacheSummary();
   console.log(`\n🎉 Retry completed!\n`);
 };
 
@@ -0,0 +1,102 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { appendAuditEntry, configureAuditLog, getAuditRunId, readAuditEntries, type AuditEntry } from "./audit-log";
+
+let tempDir: string;
+let logPath: string;
+
+const call = (overrides: Partial<AuditEntry> = {}): Omit<AuditEntry, 'runId' | 'command' | 'timestamp'> => ({
+  model: "gpt-5",
+  provider: "openai.responses",
+  modelId: "gpt-5",
+  target: "lula",
+  split: "test",
+  step: "classify",
+  language: "portuguese",
+  batchIndex: 0,
+  label: "batch 1/1 (2 items)",
+  rowIds: [2, 3],
+  source: "model",
+  prompt: "2\ttexto\n3\ttexto",
+  response: "2\tfor\n3\tagainst",
+  outcome: { status: "complete", answeredIds: [2, 3], missingIds: [], issues: [] },
+  ...overrides
+});
+
+// The audit command reads its arguments at import, so it runs in a process of its own
+const runAudit = (args: string[]) => {
+  const result = Bun.spawnSync({
+    cmd: [process.execPath, "src/audit.ts", "-m", "gpt-5", "-t", "lula", "-l", logPath, ...args],
+    stdout: "pipe",
+    stderr: "pipe",
+    timeout: 30_000
+  });
+  return { exitCode: result.exitCode, stdout: result.stdout.toString(), stderr: result.stderr.toString() };
+};
+
+beforeAll(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "audit-log-"));
+  logPath = path.join(tempDir, "audit-log.jsonl");
+});
+
+afterAll(() => {
+  // Later test files share the module, so their calls are logged nowhere
+  configureAuditLog({ path: os.devNull, command: "test" });
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("appendAuditEntry", () => {
+  test("writes nothing before the log is configured", () => {
+    appendAuditEntry(call());
+    expect(fs.existsSync(logPath)).toBe(false);
+  });
+
+  test("appends the calls of the run, read back through a filter", async () => {
+    configureAuditLog({ path: logPath, command: "process" });
+    appendAuditEntry(call());
+    appendAuditEntry(call({ step: "explain", rowIds: [4] }));
+    // A line cut short by an interrupted run
+    fs.appendFileSync(logPath, '{"runId": "20250101');
+
+    const entries = await readAuditEntries(logPath, entry => entry.rowIds.includes(3));
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ runId: getAuditRunId(), command: "process", step: "classify", rowIds: [2, 3] });
+  });
+});
+
+describe("audit command", () => {
+  beforeAll(() => {
+    const lines = [
+      { runId: "run-1", command: "process", timestamp: "2025-01-01T12:00:00.000Z", ...call() },
+      { runId: "run-2", command: "process", timestamp: "2025-01-02T12:00:00.000Z", ...call({ source: "cache" }) },
+      {
+        runId: "run-2",
+        command: "process",
+        timestamp: "2025-01-02T12:00:01.000Z",
+        ...call({ step: "explain", response: "3\tfor", outcome: { status: "incomplete", answeredIds: [3], missingIds: [2], issues: ["Missing row 2"] } })
+      }
+    ];
+    fs.writeFileSync(logPath, lines.map(line => JSON.stringify(line)).join("\n") + "\n");
+  });
+
+  test("shows the latest answer per task, tracing cached answers to the call that made them", () => {
+    const { exitCode, stdout } = runAudit(["-r", "2"]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain("Run: run-2 (process) at 2025-01-02T12:00:00.000Z");
+    expect(stdout).toContain("Cached answer of run run-1 at 2025-01-01T12:00:00.000Z");
+    expect(stdout).toContain("Row 2 was never answered in explain");
+  });
+
+  test("shows every call with --all", () => {
+    const { stdout } = runAudit(["-r", "2", "--all"]);
+    expect(stdout).toContain("3 call(s) included row 2 of gpt-5 lula test");
+  });
+
+  test("fails for rows no call included", () => {
+    const { exitCode, stderr } = runAudit(["-r", "9"]);
+    expect(exitCode).toBe(1);
+    expect(stderr).toContain("No call in");
+  });
+});
@@ -0,0 +1,96 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import type { TokenUsage } from "./usage";
+
+// Every exchange with the model is appended as one JSON line, with the full
+// prompt and response, so any output row can be traced to the call behind it
+export const DEFAULT_AUDIT_LOG_PATH = './dataset/audit-log.jsonl';
+
+// An answer is complete when every row of the request is in it; issues are the
+// parser's warnings (malformed, repeated or unknown rows)
+export type AuditOutcome =
+  | { status: 'complete' | 'incomplete'; answeredIds: number[]; missingIds: number[]; issues: string[] }
+  | { status: 'failed'; error: string };
+
+export interface AuditEntry {
+  runId: string;
+  // Command of the run, e.g. "process" or "retry-missing"
+  command: string;
+  timestamp: string;
+  // Registry id, and the provider and model the request was sent to
+  model: string;
+  provider: string;
+  modelId: string;
+  target: string;
+  split: 'train' | 'test';
+  step: string;
+  // Language of the output file; missing in entries of runs before languages could be chosen
+  language?: string;
+  // Prompt variant, in experiments with several
+  variant?: string;
+  sample?: number;
+  batchIndex?: number;
+  label: string;
+  rowIds: number[];
+  // Where the answer came from; cached answers were not sent again
+  source: 'model' | 'cache' | 'batch_job';
+  prompt: string;
+  response?: string;
+  latencyMs?: number;
+  usage?: TokenUsage;
+  finishReason?: string;
+  outcome: AuditOutcome;
+}
+
+let logPath = DEFAULT_AUDIT_LOG_PATH;
+let command = 'process';
+// "20250101T120000-1a2b3c"
+let runId = '';
+
+export const configureAuditLog = (options: { path?: string; command: string }) => {
+  logPath = options.path ?? DEFAULT_AUDIT_LOG_PATH;
+  command = options.command;
+  runId = `${new Date().toISOString().replace(/[-:]/g, '').replace(/\..*$/, '')}-${crypto.randomBytes(3).toString('hex')}`;
+};
+
+export const getAuditRunId = (): string => runId;
+
+export const getAuditLogPath = (): string => logPath;
+
+export const appendAuditEntry = (entry: Omit<AuditEntry, 'runId' | 'command' | 'timestamp'>) => {
+  if (!runId) {
+    return;
+  }
+  const line: AuditEntry = { runId, command, timestamp: new Date().toISOString(), ...entry };
+  try {
+    fs.mkdirSync(path.dirname(logPath), { recursive: true });
+    fs.appendFileSync(logPath, JSON.stringify(line) + '\n');
+  } catch (error: any) {
+    console.warn(`  ⚠️ Could not write to the audit log ${logPath}: ${error.message || error}`);
+  }
+};
+
+// Streams the log, so that large logs are never loaded at once
+export const readAuditEntries = async (
+  filePath: string,
+  filter: (entry: AuditEntry) => boolean
+): Promise<AuditEntry[]> => {
+  const entries: AuditEntry[] = [];
+  const lines = readline.createInterface({ input: fs.createReadStream(filePath), crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const entry = JSON.parse(line) as AuditEntry;
+      if (filter(entry)) {
+        entries.push(entry);
+      }
+    } catch {
+      // A line cut short by an interrupted run
+    }
+  }
+  return entries;
+};
@@ -0,0 +1,90 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { z } from "zod";
+import { findModelConfig } from "../utils/models";
+import { createBatchJobRequest, getBatchJobId, getPromptHash, readBatchJobResults } from "./batch-jobs";
+import { recordUsage } from "./usage";
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "batch-jobs-"));
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const writeResults = (lines: unknown[]): string => {
+  const filePath = path.join(dir, `results-${Math.random().toString(36).slice(2)}.jsonl`);
+  fs.writeFileSync(filePath, lines.map(line => typeof line === "string" ? line : JSON.stringify(line)).join("\n"));
+  return filePath;
+};
+
+const answer = (customId: string, content: string) => ({
+  custom_id: customId,
+  response: {
+    status_code: 200,
+    body: {
+      choices: [{ message: { content }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 100, completion_tokens: 20 }
+    }
+  },
+  error: null
+});
+
+const key = { model: "gpt-5", language: "pt", target: "lula", split: "test" as const, step: "classify", batchIndex: 3 };
+
+describe("getBatchJobId", () => {
+  test("starts with the model and language, then the variant", () => {
+    expect(getBatchJobId(key)).toBe("gpt-5/pt/lula/test/classify/3");
+    expect(getBatchJobId({ ...key, variant: "v2" })).toBe("gpt-5/pt/v2/lula/test/classify/3");
+  });
+});
+
+describe("createBatchJobRequest", () => {
+  test("puts the prompt hash after the ID", () => {
+    const format = { schema: z.object({ id: z.number(), label: z.string() }), tsvFields: ["label"] };
+    const request = createBatchJobRequest(findModelConfig("gpt-5")!, key, "um prompt", "tsv", format);
+    expect(request.custom_id).toBe(`gpt-5/pt/lula/test/classify/3#${getPromptHash("um prompt")}`);
+    expect(getPromptHash("um prompt")).not.toBe(getPromptHash("outro prompt"));
+  });
+});
+
+describe("readBatchJobResults", () => {
+  test("reads answers, failures, their usage and the hash of the prompt they answer", () => {
+    const filePath = writeResults([
+      answer("gpt-5/pt/lula/test/classify/0#aaaaaaaaaaaa", '{"results":[]}'),
+      { custom_id: "gpt-5/pt/lula/test/classify/1#bbbbbbbbbbbb", response: { status_code: 500, body: { error: { message: "server error" } } } },
+      { custom_id: "gpt-5/pt/lula/test/classify/2#cccccccccccc", response: null, error: { code: "batch_expired", message: "expired" } }
+    ]);
+    const results = readBatchJobResults(filePath, { model: "gpt-5", language: "pt" });
+    expect(results.get("gpt-5/pt/lula/test/classify/0")).toEqual({
+      promptHash: "aaaaaaaaaaaa",
+      ok: true,
+      text: '{"results":[]}',
+      usage: { inputTokens: 100, outputTokens: 20 },
+      finishReason: "stop"
+    });
+    expect(results.get("gpt-5/pt/lula/test/classify/1")).toEqual({ promptHash: "bbbbbbbbbbbb", ok: false, error: "server error" });
+    expect(results.get("gpt-5/pt/lula/test/classify/2")).toEqual({ promptHash: "cccccccccccc", ok: false, error: "expired" });
+  });
+
+  test("leaves out results of another model or language and lines that aren't results", () => {
+    const filePath = writeResults([
+      answer("gemini-2.5-pro/pt/lula/test/classify/0#aaaaaaaaaaaa", "{}"),
+      answer("gpt-5/en/lula/test/classify/0#aaaaaaaaaaaa", "{}"),
+      // Exported before the prompt hash was recorded
+      answer("gpt-5/pt/lula/test/classify/0", "{}"),
+      "not json",
+      { id: "batch_req_1" }
+    ]);
+    expect(readBatchJobResults(filePath, { model: "gpt-5", language: "pt" }).size).toBe(0);
+  });
+});
+
+describe("batch prices", () => {
+  test("are half the regular ones", () => {
+    const context = { modelType: "gpt-5", target: "lula", split: "test" as const, step: "classify" };
+    const usage = { inputTokens: 1_000_000, outputTokens: 100_000 };
+    expect(recordUsage(context, usage, { batch: true })).toBeCloseTo(recordUsage(context, usage) / 2);
+  });
+});
@@ -0,0 +1,170 @@
+import crypto from "crypto";
+import fs from "fs";
+import { z } from "zod";
+import type { ModelConfig } from "../utils/models";
+import { getResponseJsonSchema, type OutputMode, type RecordFormat } from "./response-parser";
+import type { TokenUsage } from "./usage";
+
+// Batches are sent through the provider's batch API instead of one request at a
+// time: --export-batch-jobs writes every pending batch as a request line and
+// --import-batch-results reads the answers back into the checkpoints. Both are
+// plain file transforms; uploading and downloading is left to the provider's tools.
+
+export const BATCH_JOB_PROVIDERS: ModelConfig['provider'][] = ['openai', 'openai-compatible'];
+
+export interface BatchJobKey {
+  // Model ID from the registry
+  model: string;
+  // Code of the output language
+  language: string;
+  target: string;
+  split: 'train' | 'test';
+  // Checkpoint name of the task sample, e.g. "classify" or "classify-sample2"
+  step: string;
+  batchIndex: number;
+  // Prompt variant, in experiments with several
+  variant?: string;
+}
+
+// One line of an OpenAI Batch API input file
+export interface BatchJobRequest {
+  custom_id: string;
+  method: 'POST';
+  url: '/v1/chat/completions';
+  body: Record<string, unknown>;
+}
+
+export type BatchJobResult = { promptHash: string } & (
+  | { ok: true; text: string; usage: TokenUsage; finishReason?: string }
+  | { ok: false; error: string }
+);
+
+export type BatchJobs =
+  | { mode: 'export'; modelConfig: ModelConfig; requests: BatchJobRequest[] }
+  | { mode: 'import'; results: Map<string, BatchJobResult>; imported: Set<string> };
+
+// "gpt-5/pt/lula/test/classify-sample2/3", or "gpt-5/pt/v2/lula/test/classify/3" for a prompt variant
+export const getBatchJobId = ({ model, language, target, split, step, batchIndex, variant }: BatchJobKey): string => {
+  return [model, language, ...(variant ? [variant] : []), target, split, step, batchIndex].join('/');
+};
+
+// Goes after the ID in custom_id, so an answer is only imported into the batch
+// whose prompt it was asked (rows, examples and template unchanged)
+export const getPromptHash = (prompt: string): string => {
+  return crypto.createHash('sha256').update(prompt).digest('hex').slice(0, 12);
+};
+
+export const createBatchJobRequest = (
+  modelConfig: ModelConfig,
+  key: BatchJobKey,
+  prompt: string,
+  outputMode: OutputMode,
+  format: RecordFormat<any>,
+  settings: { temperature?: number } = {}
+): BatchJobRequest => {
+  const { temperature, maxOutputTokens, reasoningEffort } = { ...modelConfig.options, ...settings };
+  return {
+    custom_id: `${getBatchJobId(key)}#${getPromptHash(prompt)}`,
+    method: 'POST',
+    url: '/v1/chat/completions',
+    body: {
+      model: modelConfig.model,
+      messages: [{ role: 'user', content: prompt }],
+      ...(outputMode === 'structured' && {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'annotations', schema: getResponseJsonSchema(format).jsonSchema }
+        }
+      }),
+      ...(temperature !== undefined && { temperature }),
+      ...(maxOutputTokens !== undefined && { max_completion_tokens: maxOutputTokens }),
+      ...(reasoningEffort !== undefined && { reasoning_effort: reasoningEffort })
+    }
+  };
+};
+
+export const writeBatchJobRequests = (filePath: string, requests: BatchJobRequest[]) => {
+  fs.writeFileSync(filePath, requests.map(request => JSON.stringify(request)).join('\n') + '\n');
+};
+
+// The fields read from a line of an OpenAI Batch API output (or error) file
+const batchResultLineSchema = z.object({
+  custom_id: z.string(),
+  response: z.object({
+    status_code: z.number(),
+    body: z.object({
+      choices: z.array(z.object({
+        message: z.object({ content: z.string().nullish() }),
+        finish_reason: z.string().nullish()
+      })).optional(),
+      usage: z.object({ prompt_tokens: z.number(), completion_tokens: z.number() }).partial().nullish(),
+      error: z.object({ message: z.string() }).nullish()
+    }).nullish()
+  }).nullish(),
+  error: z.object({ message: z.string() }).nullish()
+});
+
+// Reads an OpenAI Batch API output (or error) file, keyed by batch job ID. Results
+// of another model or language, and those exported before custom_id had the
+// prompt hash, are left out, so they can't fill this run's checkpoints.
+export const readBatchJobResults = (
+  filePath: string,
+  { model, language }: Pick<BatchJobKey, 'model' | 'language'>
+): Map<string, BatchJobResult> => {
+  const results = new Map<string, BatchJobResult>();
+  const rejected: string[] = [];
+  const unhashed: string[] = [];
+  const lines = fs.readFileSync(filePath, 'utf-8').split('\n').filter(line => line.trim());
+
+  lines.forEach((line, index) => {
+    let json: unknown;
+    try {
+      json = JSON.parse(line);
+    } catch {
+      console.warn(`  ⚠️ ${filePath}: line ${index + 1} is not valid JSON`);
+      return;
+    }
+    const parsed = batchResultLineSchema.safeParse(json);
+    if (!parsed.success) {
+      console.warn(`  ⚠️ ${filePath}: line ${index + 1} is not a batch result (${parsed.error.issues[0]?.message})`);
+      return;
+    }
+    const entry = parsed.data;
+    if (!entry.custom_id.startsWith(`${model}/${language}/`)) {
+      rejected.push(entry.custom_id);
+      return;
+    }
+    const [id, promptHash] = entry.custom_id.split('#');
+    if (!promptHash) {
+      unhashed.push(entry.custom_id);
+      return;
+    }
+
+    const response = entry.response;
+    const content = response?.body?.choices?.[0]?.message.content;
+    if (entry.error || response?.status_code !== 200 || typeof content !== 'string') {
+      const error = entry.error?.message ?? response?.body?.error?.message ?? `status ${response?.status_code ?? 'unknown'}`;
+      results.set(id, { promptHash, ok: false, error });
+      return;
+    }
+
+    results.set(id, {
+      promptHash,
+      ok: true,
+      text: content,
+      usage: {
+        inputTokens: response.body?.usage?.prompt_tokens ?? 0,
+        outputTokens: response.body?.usage?.completion_tokens ?? 0
+      },
+      finishReason: response.body?.choices?.[0]?.finish_reason ?? undefined
+    });
+  });
+
+  if (rejected.length > 0) {
+    console.warn(`⚠️ Ignoring ${rejected.length} results of another model or language (expected ${model}/${language}/...): ${rejected.slice(0, 5).join(', ')}${rejected.length > 5 ? ', ...' : ''}`);
+  }
+  if (unhashed.length > 0) {
+    console.warn(`⚠️ Ignoring ${unhashed.length} results without a prompt hash in their custom_id, export those batches again: ${unhashed.slice(0, 5).join(', ')}${unhashed.length > 5 ? ', ...' : ''}`);
+  }
+  return results;
+};
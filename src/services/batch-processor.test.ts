@@ -0,0 +1,54 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { loadPromptTemplate } from "../prompts/templates";
+import { createClassifyTask } from "../tasks/classify";
+import { getLabelSet } from "../utils/label-sets";
+import { createMockModel, loadMockScript, type MockScript } from "../utils/mock-model";
+import { requestWithSplitting } from "./batch-processor";
+import { configureRetryPolicy } from "./retry";
+
+const labelSet = getLabelSet("stance");
+const classify = createClassifyTask(labelSet, 1, loadPromptTemplate("v2", "classify"));
+const rows = [2, 3, 4, 5].map(id => ({ id, text: `texto ${id} sobre lula` }));
+
+const getContext = (script: Partial<MockScript> = {}) => ({
+  task: classify,
+  model: createMockModel(loadMockScript(JSON.stringify(script))),
+  modelType: "mock",
+  target: "lula",
+  split: "test" as const,
+  language: "portuguese",
+  outputMode: "structured" as const
+});
+
+beforeAll(() => {
+  configureRetryPolicy({ maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1 });
+});
+
+describe("requestWithSplitting", () => {
+  test("answers every row in one request", async () => {
+    const result = await requestWithSplitting(getContext(), rows, "batch");
+    expect(result.records.map(record => record.id).sort()).toEqual([2, 3, 4, 5]);
+    expect(result.missingIds).toEqual([]);
+    expect(result.requests).toBe(1);
+  });
+
+  test("re-sends missing rows and reports those still unanswered", async () => {
+    const result = await requestWithSplitting(getContext({ omitIds: [3] }), rows, "batch");
+    expect(result.records.map(record => record.id).sort()).toEqual([2, 4, 5]);
+    expect(result.missingIds).toEqual([3]);
+    expect(result.requests).toBe(2);
+  });
+
+  test("re-sends the rows a truncated TSV answer left out", async () => {
+    const result = await requestWithSplitting({ ...getContext({ truncateFirst: 1 }), outputMode: "tsv" }, rows, "batch");
+    expect(result.records.map(record => record.id).sort()).toEqual([2, 3, 4, 5]);
+    expect(result.missingIds).toEqual([]);
+    expect(result.requests).toBeGreaterThan(1);
+  });
+
+  test("re-sends rows answered with invalid records", async () => {
+    const result = await requestWithSplitting(getContext({ malformedIds: [4, 5] }), rows, "batch");
+    expect(result.missingIds.sort()).toEqual([4, 5]);
+  });
+});
+
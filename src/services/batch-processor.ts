@@ -1,274 +1,757 @@
-import { generateText } from "ai";
-import { getClassificationPrompt } from "../prompts/classification";
-import { getExplanationPrompt } from "../prompts/explanation";
-import { BATCH_SIZE, cleanTsvOutput, MAX_RETRIES, RETRY_DELAY_MS, sleep } from "../utils/common";
-import { type LanguageModel } from "../utils/models";
+import { generateObject, generateText, NoObjectGeneratedError, UnsupportedFunctionalityError, type LanguageModelUsage } from "ai";
+import { ORIGINAL_PROMPT_VERSION } from "../prompts/templates";
+import type { AnnotationTask, TaskResult } from "../tasks";
+import { BATCH_SIZE, estimateTokens } from "../utils/common";
+import { DEFAULT_LABEL_SET } from "../utils/label-sets";
+import { findModelConfig, getProviderName, type LanguageModel } from "../utils/models";
+import { getLanguage } from "../utils/languages";
 import {
+  deleteCheckpoint,
+  findUnversionedCheckpoint,
   getCheckpointPath,
+  isWrittenWithTemplate,
   loadCheckpoint,
+  saveBatchFailure,
   saveBatchResult,
-  saveCheckpoint
+  saveCheckpoint,
+  CheckpointConflictError,
+  CHECKPOINT_VERSION,
+  type CheckpointData
 } from "./checkpoint";
+import { type SourceRow } from "./excel";
+import { appendAuditEntry, type AuditOutcome } from "./audit-log";
+import { createBatchJobRequest, getBatchJobId, getPromptHash, type BatchJobKey, type BatchJobs } from "./batch-jobs";
+import { recordDryRunBatch, type DryRun } from "./dry-run";
+import { selectExamples, type ExamplePool } from "./few-shot";
+import {
+  extractJsonResponse,
+  formatBatchIdReport,
+  getResponseJsonSchema,
+  matchBatchIds,
+  parseBatchResponse,
+  type BatchRecord,
+  type OutputMode,
+  type RecordFormat
+} from "./response-parser";
+import { getCacheKey, readCachedResponse, writeCachedResponse } from "./response-cache";
+import { BatchRequestError, ContentFilterError, withRetry } from "./retry";
+import { getScheduler } from "./scheduler";
+import { assertNotShuttingDown, getShutdownSignal } from "./shutdown";
+import { assertWithinBudget, recordUsage, type TokenUsage, type UsageContext } from "./usage";
+
+export interface BatchRequest {
+  model: LanguageModel;
+  prompt: string;
+  outputMode: OutputMode;
+  // Shape of the records the response must contain
+  format: RecordFormat<any>;
+  settings?: { temperature?: number };
+  label?: string;
+  // Set from the second sample on, which sends the same prompts again
+  sample?: number;
+  // What the tokens are spent on, for the usage summary and the cost budget
+  usageContext: UsageContext;
+  // Where the request belongs, for the audit log
+  language?: string;
+  batchIndex?: number;
+  rowIds?: number[];
+}
+
+export interface BatchResponse {
+  text: string;
+  usage: TokenUsage;
+  // Set on answers from the model, to cache them once they turn out complete
+  cacheKey?: string;
+  cached?: boolean;
+  latencyMs?: number;
+  finishReason?: string;
+  // What the model wrote, when the text had to be extracted from it
+  rawText?: string;
+}
+
+// Every model call goes through the provider's shared scheduler, which bounds
+// concurrency and keeps requests and tokens per minute under the limits. Each
+// retry attempt is scheduled again, so retries respect the same limits.
+// Throws a BatchRequestError once the retry policy gives up.
+export const generateBatchResponse = async (request: BatchRequest): Promise<BatchResponse> => {
+  const { model, prompt, outputMode, format, settings = {}, label = 'batch', sample, usageContext } = request;
+  const provider = getProviderName(model);
+  // The mock model's answers depend on its script, not only on the request
+  const cacheKey = provider === 'mock' ? null : getCacheKey({
+    provider: model.provider,
+    modelId: model.modelId,
+    options: findModelConfig(usageContext.modelType)?.options,
+    settings,
+    outputMode,
+    schema: outputMode === 'structured' ? getResponseJsonSchema(format).jsonSchema : undefined,
+    sample,
+    prompt
+  });
+  const cached = cacheKey ? readCachedResponse(cacheKey) : null;
+  if (cached) {
+    // Nothing is spent on an answer from the cache
+    return { text: cached.text, usage: { inputTokens: 0, outputTokens: 0 }, cached: true };
+  }
+
+  const scheduler = getScheduler(provider);
+  const response = await withRetry(
+    () => {
+      // Requests already queued are cancelled by the shutdown itself
+      assertNotShuttingDown();
+      return scheduler.schedule(
+        () => assertWithinBudget().then(() => requestAuditedResponse(request, settings)),
+        { tokens: estimateTokens(prompt), label }
+      );
+    },
+    label
+  );
+  recordUsage(usageContext, response.usage);
+  return cacheKey ? { ...response, cacheKey } : response;
+};
+
+// Fields of the audit entry that describe the request
+const getAuditRequest = (
+  { model, prompt, label = 'batch', sample, usageContext, language, batchIndex, rowIds = [] }: BatchRequest
+) => ({
+  model: usageContext.modelType,
+  provider: model.provider,
+  modelId: model.modelId,
+  target: usageContext.target,
+  split: usageContext.split,
+  step: usageContext.step,
+  language,
+  variant: usageContext.variant,
+  sample,
+  batchIndex,
+  label,
+  rowIds,
+  prompt
+});
+
+// Failed attempts are logged here; answers are logged once they are parsed
+const requestAuditedResponse = async (
+  request: BatchRequest,
+  settings: { temperature?: number }
+): Promise<BatchResponse> => {
+  const startedAt = Date.now();
+  try {
+    const response = await requestBatchResponse(request.model, request.prompt, request.outputMode, request.format, settings);
+    return { ...response, latencyMs: Date.now() - startedAt };
+  } catch (error: any) {
+    const unparsed = NoObjectGeneratedError.isInstance(error) ? error : undefined;
+    appendAuditEntry({
+      ...getAuditRequest(request),
+      source: 'model',
+      response: unparsed?.text,
+      latencyMs: Date.now() - startedAt,
+      usage: unparsed?.usage && toTokenUsage(unparsed.usage),
+      finishReason: unparsed?.finishReason,
+      outcome: { status: 'failed', error: error.message || String(error) }
+    });
+    throw error;
+  }
+};
 
-export const processBatchWithRetry = async (
+const toTokenUsage = (usage: LanguageModelUsage): TokenUsage => ({
+  inputTokens: usage.inputTokens ?? 0,
+  outputTokens: usage.outputTokens ?? 0
+});
+
+const requestBatchResponse = async (
   model: LanguageModel,
   prompt: string,
-  retries = MAX_RETRIES
-): Promise<string | null> => {
-  for (let attempt = 1; attempt <= retries; attempt++) {
-    try {
-      const { text } = await generateText({
-        ...(model.provider === 'openai' ? { temperature: 1 } : {}),
-        model,
-        prompt,
-      });
-      return text;
-    } catch (error: any) {
-      const isTimeout = error?.name === 'TimeoutError' || error?.code === 23;
-      const isRetryable = isTimeout || error?.message?.includes('rate limit') || error?.message?.includes('503');
+  outputMode: OutputMode,
+  format: RecordFormat<any>,
+  settings: { temperature?: number }
+): Promise<BatchResponse> => {
+  // Retries are handled by withRetry, not by the SDK
+  if (outputMode === 'tsv') {
+    const { text, finishReason, usage } = await generateText({ ...settings, model, prompt, maxRetries: 0, abortSignal: getShutdownSignal() });
+    if (finishReason === 'content-filter') {
+      throw new ContentFilterError();
+    }
+    return { text, usage: toTokenUsage(usage), finishReason };
+  }
 
-      if (isRetryable && attempt < retries) {
-        console.log(`  ⚠️ Attempt ${attempt} failed: ${error.message || error.name}. Retrying in ${RETRY_DELAY_MS}ms...`);
-        await sleep(RETRY_DELAY_MS * attempt);
-      } else {
-        console.error(`  ❌ Failed after ${attempt} attempts: ${error.message || error.name}`);
-        return null;
+  try {
+    const { object, usage, finishReason } = await generateObject({
+      ...settings,
+      model,
+      prompt,
+      maxRetries: 0,
+      abortSignal: getShutdownSignal(),
+      schema: getResponseJsonSchema(format),
+      schemaName: 'annotations'
+    });
+    return { text: JSON.stringify(object), usage: toTokenUsage(usage), finishReason };
+  } catch (error) {
+    if (UnsupportedFunctionalityError.isInstance(error)) {
+      throw new Error(`${error.message}. Use --output-mode tsv for models without structured output.`);
+    }
+    // Models that don't follow the schema closely may still have answered with
+    // usable JSON around some extra text; its records are validated one by one
+    if (NoObjectGeneratedError.isInstance(error) && error.finishReason !== 'length' && error.text) {
+      const text = extractJsonResponse(error.text);
+      if (text && error.usage) {
+        return { text, usage: toTokenUsage(error.usage), finishReason: error.finishReason, rawText: error.text };
       }
     }
+    throw error;
   }
-  return null;
 };
 
-export const explainStanceLabels = async (
-  model: LanguageModel,
-  modelType: string,
-  target: string,
-  dataRows: { text: string; label: string }[],
-  language: string = "portuguese",
-  isTrainFile: boolean = true
-): Promise<Array<{ text: string, explanation: string }>> => {
-  console.log(`🔍 Explaining human stance labels for ${target}`);
-
-  const checkpointPath = getCheckpointPath(modelType, target, 'explain', isTrainFile);
-  let checkpoint = loadCheckpoint(checkpointPath);
-
-  // Create batches
-  const batches: { text: string; label: string }[][] = [[]];
-  let lineCount = 0;
-  let batchIndex = 0;
-
-  for (const row of dataRows) {
-    batches[batchIndex].push(row);
-    lineCount++;
-    if (lineCount === BATCH_SIZE) {
-      batchIndex++;
-      batches.push([]);
-      lineCount = 0;
+// Records are matched to the batch by the row id the model echoes back; anything
+// missing, repeated or not part of the batch is reported and left out. Matched
+// records are then checked against their rows by the task.
+export const resolveBatchRecords = <Input extends SourceRow, Output extends BatchRecord>(
+  rawResponse: string,
+  outputMode: OutputMode,
+  task: AnnotationTask<Input, Output>,
+  batch: Input[],
+  batchLabel: string
+): { records: Output[]; issues: string[] } => {
+  const { records, errors } = parseBatchResponse(rawResponse, outputMode, task);
+  const { matched, report } = matchBatchIds(batch.map(row => row.id), records);
+  const issues = [...errors, ...formatBatchIdReport(report)];
+
+  const { checkRecord } = task;
+  const checked: Output[] = [];
+  for (const row of batch.filter(row => matched.has(row.id))) {
+    const result = checkRecord ? checkRecord(row, matched.get(row.id)!) : matched.get(row.id)!;
+    if (typeof result === 'string') {
+      issues.push(result);
+    } else {
+      checked.push(result);
     }
   }
+  issues.forEach(issue => console.warn(`  ⚠️ ${batchLabel}: ${issue}`));
+  return { records: checked, issues };
+};
 
-  // Initialize or validate checkpoint
-  if (!checkpoint) {
-    checkpoint = {
-      processedBatches: [],
-      results: {},
-      target,
-      language,
-      action: 'explain',
-      totalBatches: batches.length,
-      modelType,
-      lastUpdated: new Date().toISOString()
-    };
-    saveCheckpoint(checkpointPath, checkpoint);
-  } else {
-    console.log(`📂 Found existing checkpoint with ${checkpoint.processedBatches.length}/${batches.length} batches completed`);
-  }
+const getParseOutcome = (
+  rows: SourceRow[],
+  records: BatchRecord[],
+  issues: string[]
+): Extract<AuditOutcome, { status: 'complete' | 'incomplete' }> => {
+  const answeredIds = records.map(record => record.id);
+  const answered = new Set(answeredIds);
+  const missingIds = rows.filter(row => !answered.has(row.id)).map(row => row.id);
+  return { status: missingIds.length === 0 ? 'complete' : 'incomplete', answeredIds, missingIds, issues };
+};
 
-  // Process only unprocessed batches
-  const promises = batches.map(async (batch, index) => {
-    // Skip if already processed
-    if (checkpoint!.processedBatches.includes(index)) {
-      console.log(`  ⏭️ Skipping batch ${index + 1}/${batches.length} (already processed)`);
-      return { index, result: checkpoint!.results[index], skipped: true };
+export interface TaskContext<Input extends SourceRow = SourceRow, Output extends BatchRecord = BatchRecord> {
+  task: AnnotationTask<Input, Output>;
+  model: LanguageModel;
+  modelType: string;
+  target: string;
+  split: 'train' | 'test';
+  // Language of the output file; tasks with a language of their own answer in that one
+  language: string;
+  outputMode: OutputMode;
+  // Pool the prompt examples of every batch are drawn from
+  fewShot?: { pool: ExamplePool; count: number; poolPath: string };
+  // Pending batches are exported to or imported from provider batch jobs
+  // instead of being sent
+  batchJobs?: BatchJobs;
+  // Pending batches are only rendered and measured, nothing is sent or saved
+  dryRun?: DryRun;
+  // Number of the sample being run, from the second one on
+  sample?: number;
+  // Prompt variant of an experiment; its checkpoints, batch jobs and output
+  // files are kept apart from those of the other variants
+  variant?: string;
+}
+
+export interface SplitBatchResult<Output extends BatchRecord = BatchRecord> {
+  records: Output[];
+  usage: TokenUsage;
+  // Rows still unanswered after splitting down to single rows
+  missingIds: number[];
+  requests: number;
+}
+
+const buildBatchPrompt = <Input extends SourceRow, Output extends BatchRecord>(
+  context: TaskContext<Input, Output>,
+  rows: Input[]
+): string => {
+  const { task, target, language, outputMode, fewShot } = context;
+  const examples = fewShot ? selectExamples(fewShot.pool, rows, fewShot.count) : undefined;
+  return task.buildPrompt({ target, language: task.language ?? language, batch: rows, outputMode, examples });
+};
+
+// Sends the rows and re-sends only those missing from the response (truncated
+// output, skipped or mangled lines), bisecting them into smaller batches until
+// every row is answered or single rows still come back empty. Errors from the
+// first request propagate; a failing split only leaves its rows missing.
+export const requestWithSplitting = async <Input extends SourceRow, Output extends BatchRecord>(
+  context: TaskContext<Input, Output>,
+  rows: Input[],
+  label: string,
+  batchIndex?: number
+): Promise<SplitBatchResult<Output>> => {
+  const { task, model, modelType, target, split, language, variant, outputMode, sample } = context;
+  const request: BatchRequest = {
+    model,
+    prompt: buildBatchPrompt(context, rows),
+    outputMode,
+    format: task,
+    settings: task.settings?.(model),
+    label,
+    sample,
+    usageContext: { modelType, target, split, step: task.name, variant },
+    language,
+    batchIndex,
+    rowIds: rows.map(row => row.id)
+  };
+  const response = await generateBatchResponse(request);
+  const { text, usage, cacheKey } = response;
+  const { records, issues } = resolveBatchRecords(text, outputMode, task, rows, label);
+  appendAuditEntry({
+    ...getAuditRequest(request),
+    source: response.cached ? 'cache' : 'model',
+    response: response.rawText ?? text,
+    latencyMs: response.latencyMs,
+    usage,
+    finishReason: response.finishReason,
+    outcome: getParseOutcome(rows, records, issues)
+  });
+  const result: SplitBatchResult<Output> = { records, usage, missingIds: [], requests: 1 };
+
+  const answered = new Set(records.map(record => record.id));
+  const missing = rows.filter(row => !answered.has(row.id));
+  if (missing.length === 0) {
+    // Incomplete answers are not cached, so re-running asks for the missing rows again
+    if (cacheKey) {
+      writeCachedResponse(cacheKey, text);
     }
+    return result;
+  }
+  if (rows.length === 1) {
+    result.missingIds = [rows[0].id];
+    return result;
+  }
 
-    console.log(`  📝 Processing batch ${index + 1}/${batches.length} (${batch.length} items)...`);
+  const half = Math.ceil(missing.length / 2);
+  const parts = missing.length === 1 ? [missing] : [missing.slice(0, half), missing.slice(half)];
+  console.log(`  ✂️ ${label}: ${missing.length}/${rows.length} rows missing, re-sending them in ${parts.length} smaller batch(es)`);
 
+  const partResults = await Promise.all(parts.map(async (part, index) => {
+    const partLabel = `${label} [split ${index + 1}/${parts.length}, ${part.length} items]`;
     try {
-      const prompt = getExplanationPrompt({ target, language, batch });
-      const { text } = await generateText({
-        ...(model.provider === 'openai' ? { temperature: 1 } : {}),
-        model,
-        prompt,
-      });
-
-      // Save successful batch immediately
-      saveBatchResult(checkpointPath, index, text, checkpoint!);
-      console.log(`  ✓ Batch ${index + 1}/${batches.length} completed and saved`);
-      return { index, result: text, skipped: false };
+      return await requestWithSplitting(context, part, partLabel, batchIndex);
     } catch (error: any) {
-      console.error(`  ❌ Batch ${index + 1} failed: ${error.message || error}`);
-      return { index, result: null, skipped: false };
+      console.error(`  ❌ ${partLabel} failed: ${error.message || error}`);
+      return null;
+    }
+  }));
+
+  partResults.forEach((partResult, index) => {
+    if (!partResult) {
+      result.missingIds.push(...parts[index].map(row => row.id));
+      return;
     }
+    result.records.push(...partResult.records);
+    result.usage = {
+      inputTokens: result.usage.inputTokens + partResult.usage.inputTokens,
+      outputTokens: result.usage.outputTokens + partResult.usage.outputTokens
+    };
+    result.missingIds.push(...partResult.missingIds);
+    result.requests += partResult.requests;
   });
 
-  console.log(`⏳ Processing ${batches.length - checkpoint.processedBatches.length} remaining batches...`);
-  const batchResults = await Promise.all(promises);
+  return result;
+};
 
-  // Collect all results (including previously processed ones)
-  const allResults: string[] = [];
-  for (let i = 0; i < batches.length; i++) {
-    const result = checkpoint.results[i];
-    if (result) {
-      allResults.push(result);
-    }
+// Reported when a task sample starts and after each batch it sends
+export interface BatchProgress {
+  modelType: string;
+  target: string;
+  split: 'train' | 'test';
+  // Checkpoint name of the task sample, e.g. "classify" or "classify-sample2"
+  step: string;
+  total: number;
+  // Batches done so far, including those of earlier runs
+  completed: number;
+  failed: number;
+}
+
+let progressListener: ((progress: BatchProgress) => void) | undefined;
+
+export const setBatchProgressListener = (listener: ((progress: BatchProgress) => void) | undefined) => {
+  progressListener = listener;
+};
+
+interface BatchOutcome {
+  index: number;
+  skipped: boolean;
+  failed: boolean;
+  missing: number;
+  requests: number;
+}
+
+// Instead of calling the model, adds the batch to the export file, or fills the
+// checkpoint with the provider's answer to it. Batches without an answer stay
+// pending; rows the answer left out are missing and go into the next export.
+const handleBatchJob = <Input extends SourceRow, Output extends BatchRecord>(
+  context: TaskContext<Input, Output>,
+  batchJobs: BatchJobs,
+  key: BatchJobKey,
+  rows: Input[],
+  checkpointPath: string,
+  checkpoint: CheckpointData,
+  label: string
+): BatchOutcome => {
+  const { task, model, modelType, target, split, language, variant, outputMode } = context;
+  const pending: BatchOutcome = { index: key.batchIndex, skipped: true, failed: false, missing: 0, requests: 0 };
+
+  if (batchJobs.mode === 'export') {
+    batchJobs.requests.push(createBatchJobRequest(
+      batchJobs.modelConfig, key, buildBatchPrompt(context, rows), outputMode, task, task.settings?.(model)
+    ));
+    return pending;
+  }
+
+  const id = getBatchJobId(key);
+  const result = batchJobs.results.get(id);
+  if (!result) {
+    return pending;
+  }
+  // The rows, examples or template changed since the export, so the answer is to another prompt
+  const prompt = buildBatchPrompt(context, rows);
+  if (result.promptHash !== getPromptHash(prompt)) {
+    console.warn(`  ⚠️ ${label}: the batch job answered another prompt than this run's (${result.promptHash}, expected ${getPromptHash(prompt)}), leaving it pending`);
+    return pending;
+  }
+  batchJobs.imported.add(id);
+
+  const auditRequest = getAuditRequest({
+    model,
+    prompt,
+    outputMode,
+    format: task,
+    label,
+    sample: context.sample,
+    usageContext: { modelType, target, split, step: task.name, variant },
+    language,
+    batchIndex: key.batchIndex,
+    rowIds: rows.map(row => row.id)
+  });
+
+  if (!result.ok) {
+    console.error(`  ❌ ${label} failed in the batch job: ${result.error}`);
+    appendAuditEntry({ ...auditRequest, source: 'batch_job', outcome: { status: 'failed', error: result.error } });
+    saveBatchFailure(checkpointPath, key.batchIndex, {
+      kind: 'retryable',
+      category: 'batch_job',
+      reason: result.error,
+      attempts: 1,
+      failedAt: new Date().toISOString()
+    }, checkpoint);
+    return { ...pending, skipped: false, failed: true, missing: rows.length, requests: 1 };
+  }
+
+  recordUsage({ modelType, target, split, step: task.name, variant }, result.usage, { batch: true });
+  const text = outputMode === 'structured' ? extractJsonResponse(result.text) ?? result.text : result.text;
+  const { records, issues } = resolveBatchRecords(text, outputMode, task, rows, label);
+  const outcome = getParseOutcome(rows, records, issues);
+  appendAuditEntry({
+    ...auditRequest,
+    source: 'batch_job',
+    response: result.text,
+    usage: result.usage,
+    finishReason: result.finishReason,
+    outcome
+  });
+  saveBatchResult(checkpointPath, key.batchIndex, records, checkpoint, result.usage, outcome.missingIds);
+  return { ...pending, skipped: false, missing: outcome.missingIds.length, requests: 1 };
+};
+
+const describePromptTemplate = (checkpoint: CheckpointData): string => {
+  return checkpoint.promptTemplate
+    ? `${checkpoint.promptTemplate.id} (${checkpoint.promptTemplate.hash})`
+    : `the original prompts (${ORIGINAL_PROMPT_VERSION})`;
+};
+
+// A checkpoint from before prompt versions were part of the name is taken over
+// when it was written with the task's template; any other is left where it is,
+// for a run of its own prompt version to resume
+const adoptUnversionedCheckpoint = (
+  context: TaskContext<any, any>,
+  checkpointName: string,
+  checkpointPath: string
+): CheckpointData | null => {
+  const { task, modelType, target, split, language } = context;
+  const found = findUnversionedCheckpoint(modelType, target, checkpointName, split === 'train', language);
+  if (!found) {
+    return null;
+  }
+  if (!isWrittenWithTemplate(found.checkpoint, task.promptTemplate, task.name)) {
+    const version = found.checkpoint.promptTemplate?.id.split('/')[0] ?? ORIGINAL_PROMPT_VERSION;
+    console.log(`📂 Keeping checkpoint ${found.path} of ${describePromptTemplate(found.checkpoint)} as it is; resume it with --prompt-version ${version}`);
+    return null;
+  }
+  if (!context.dryRun) {
+    saveCheckpoint(checkpointPath, found.checkpoint);
+    deleteCheckpoint(found.path);
+  }
+  return found.checkpoint;
+};
+
+// Rows already answered by an earlier, partial run of the batch are not sent again
+const getPendingRows = <Row extends SourceRow>(batch: Row[], stored: BatchRecord[] | undefined): Row[] => {
+  const answered = new Set((stored ?? []).map(record => record.id));
+  return batch.filter(row => !answered.has(row.id));
+};
+
+// Checkpoints written before empty batches were left out may list an empty
+// trailing batch as processed
+const countProcessedBatches = (batches: unknown[], checkpoint: CheckpointData): number => {
+  return batches.filter((_, index) => checkpoint.processedBatches.includes(index)).length;
+};
+
+const collectBatchRecords = (batch: SourceRow[], stored: BatchRecord[] | undefined): BatchRecord[] => {
+  const ids = new Set(batch.map(row => row.id));
+  return (stored ?? []).filter(record => ids.has(record.id));
+};
+
+const logBatchOutcomes = (
+  outcomes: BatchOutcome[],
+  checkpoint: CheckpointData,
+  totalBatches: number
+) => {
+  const splitBatches = outcomes.filter(outcome => outcome.requests > 1);
+  if (splitBatches.length > 0) {
+    console.log(`✂️ ${splitBatches.length} batch(es) had to be split: ${splitBatches.map(outcome => `${outcome.index + 1} (${outcome.requests} requests)`).join(', ')}`);
+  }
+
+  const incomplete = outcomes.filter(outcome => !outcome.failed && outcome.missing > 0);
+  if (incomplete.length > 0) {
+    const missingRows = incomplete.reduce((sum, outcome) => sum + outcome.missing, 0);
+    console.error(`⚠️ ${missingRows} rows in ${incomplete.length} batches are still missing. Re-run to retry only those rows.`);
   }
 
-  // Check for failed batches
-  const failedBatches = batchResults.filter(r => !r.skipped && r.result === null);
+  const failedBatches = outcomes.filter(outcome => outcome.failed);
   if (failedBatches.length > 0) {
     console.error(`⚠️ ${failedBatches.length} batches failed. Re-run to retry failed batches.`);
+    logBatchFailures(checkpoint, totalBatches);
   }
+};
 
-  const allExplanations: Array<{ text: string, explanation: string }> = [];
-
-  for (const batchResult of allResults) {
-    const cleanedResult = cleanTsvOutput(batchResult);
-    const lines = cleanedResult.split('\n');
+const logBatchFailures = (checkpoint: CheckpointData, totalBatches: number) => {
+  for (const [batchIndex, failure] of Object.entries(checkpoint.failures ?? {})) {
+    const hint = failure.kind === 'fatal' ? ' (not retryable, check the configuration)' : '';
+    console.error(`   Batch ${Number(batchIndex) + 1}/${totalBatches}: ${failure.category} after ${failure.attempts} attempt(s)${hint}`);
+  }
+};
 
-    for (const line of lines) {
-      if (line.startsWith("text")) {
-        continue;
-      }
+// Runs a task over the rows of one dataset and returns the records of every
+// answered row, including those from earlier runs. Tasks with several samples
+// run once per sample, each with its own checkpoint, and the answers for a row
+// are merged with the task's combineSamples.
+export const runAnnotationTask = async <Input extends SourceRow, Output extends BatchRecord>(
+  context: TaskContext<Input, Output>,
+  rows: Input[]
+): Promise<TaskResult<Output>> => {
+  const { task, target } = context;
+  const sampleCount = task.combineSamples ? task.samples ?? 1 : 1;
+  console.log(`🔍 Generating ${task.description} for ${target}${sampleCount > 1 ? ` (${sampleCount} samples per row)` : ''}`);
+
+  if (sampleCount === 1) {
+    const records = await runTaskSample(context, rows, task.name, '');
+    return { records, samples: [records] };
+  }
 
-      if (line.trim()) {
-        const parts = line.split('\t');
-        if (parts.length >= 3) {
-          allExplanations.push({
-            text: parts[0],
-            explanation: parts[2]
-          });
-        }
-      }
+  // The first sample shares its checkpoint with single-sample runs
+  const samples = await Promise.all(Array.from({ length: sampleCount }, (_, index) =>
+    runTaskSample(
+      index === 0 ? context : { ...context, sample: index + 1 },
+      rows,
+      index === 0 ? task.name : `${task.name}-sample${index + 1}`,
+      `sample ${index + 1}/${sampleCount} `
+    )
+  ));
+
+  const answersByRow = new Map<number, Output[]>();
+  for (const records of samples) {
+    for (const record of records) {
+      answersByRow.set(record.id, [...(answersByRow.get(record.id) ?? []), record]);
     }
   }
+  const records = rows
+    .filter(row => answersByRow.has(row.id))
+    .map(row => task.combineSamples!(answersByRow.get(row.id)!));
 
-  return allExplanations;
+  return { records, samples };
 };
 
-export const classifyAndExplainStance = async (
-  model: LanguageModel,
-  modelType: string,
-  target: string,
-  texts: string[],
-  language: string = "portuguese",
-  isTrainFile: boolean = true
-): Promise<Array<{ text: string, label: string, explanation: string }>> => {
-  console.log(`🔍 Classifying and explaining LLM stance for ${target}`);
-
-  const checkpointPath = getCheckpointPath(modelType, target, 'classify', isTrainFile);
-  let checkpoint = loadCheckpoint(checkpointPath);
-
-  // Create batches
-  const batches: { text: string }[][] = [[]];
-  let lineCount = 0;
-  let batchIndex = 0;
-
-  for (const text of texts) {
-    batches[batchIndex].push({ text });
-    lineCount++;
-    if (lineCount === BATCH_SIZE) {
-      batchIndex++;
-      batches.push([]);
-      lineCount = 0;
-    }
+const runTaskSample = async <Input extends SourceRow, Output extends BatchRecord>(
+  context: TaskContext<Input, Output>,
+  rows: Input[],
+  checkpointName: string,
+  labelPrefix: string
+): Promise<Output[]> => {
+  const { task, modelType, target, split, language, variant, outputMode } = context;
+  const fewShot = context.fewShot && { count: context.fewShot.count, poolPath: context.fewShot.poolPath };
+
+  const promptTemplate = { id: task.promptTemplate.id, hash: task.promptTemplate.hash };
+  const promptVersion = promptTemplate.id.split('/')[0];
+
+  const checkpointPath = getCheckpointPath(modelType, target, checkpointName, split === 'train', language, { promptVersion, variant, fewShot });
+  // Checkpoints named before prompt versions predate variants and few-shot prompts
+  let checkpoint = loadCheckpoint(checkpointPath)
+    ?? (variant || fewShot ? null : adoptUnversionedCheckpoint(context, checkpointName, checkpointPath));
+  if (checkpoint && (checkpoint.labelSet ?? DEFAULT_LABEL_SET) !== task.labelSet.name) {
+    console.warn(`⚠️ Ignoring checkpoint ${checkpointPath}, it was written for label set "${checkpoint.labelSet ?? DEFAULT_LABEL_SET}"`);
+    checkpoint = null;
   }
+  // Only edits to the template files since the checkpoint was written get here
+  if (checkpoint && !isWrittenWithTemplate(checkpoint, task.promptTemplate, task.name)) {
+    throw new CheckpointConflictError(
+      `Checkpoint ${checkpointPath} was written with ${describePromptTemplate(checkpoint)}, but the template is now ${promptTemplate.id} (${promptTemplate.hash}). ` +
+      `Restore the template files to resume it, or delete the checkpoint to start over.`
+    );
+  }
+
+  // Batches of BATCH_SIZE rows, the last one holding the rest
+  const batches: Input[][] = Array.from(
+    { length: Math.ceil(rows.length / BATCH_SIZE) },
+    (_, index) => rows.slice(index * BATCH_SIZE, (index + 1) * BATCH_SIZE)
+  );
 
   // Initialize or validate checkpoint
   if (!checkpoint) {
     checkpoint = {
+      version: CHECKPOINT_VERSION,
       processedBatches: [],
       results: {},
       target,
-      language,
-      action: 'classify',
+      language: task.language ?? language,
+      action: checkpointName,
+      labelSet: task.labelSet.name,
+      promptTemplate,
+      fewShot,
       totalBatches: batches.length,
       modelType,
+      outputMode,
       lastUpdated: new Date().toISOString()
     };
-    saveCheckpoint(checkpointPath, checkpoint);
+    if (!context.dryRun) {
+      saveCheckpoint(checkpointPath, checkpoint);
+    }
   } else {
-    console.log(`📂 Found existing checkpoint with ${checkpoint.processedBatches.length}/${batches.length} batches completed`);
+    checkpoint.outputMode = outputMode;
+    checkpoint.promptTemplate = promptTemplate;
+    console.log(`📂 Found existing checkpoint with ${countProcessedBatches(batches, checkpoint)}/${batches.length} batches completed`);
+  }
+
+  const remaining = batches.length - countProcessedBatches(batches, checkpoint);
+  if (context.dryRun) {
+    console.log(`🧪 Rendering prompts for ${remaining} remaining batches...`);
+  } else if (context.batchJobs?.mode === 'export') {
+    console.log(`📦 Exporting ${remaining} remaining batches...`);
+  } else if (context.batchJobs?.mode === 'import') {
+    console.log(`📥 Importing results for ${remaining} remaining batches...`);
+  } else {
+    console.log(`⏳ Processing ${remaining} remaining batches...`);
   }
 
   // Process only unprocessed batches
-  const promises = batches.map(async (batch, index) => {
+  const runBatch = async (batch: Input[], index: number): Promise<BatchOutcome> => {
     // Skip if already processed
     if (checkpoint!.processedBatches.includes(index)) {
       console.log(`  ⏭️ Skipping batch ${index + 1}/${batches.length} (already processed)`);
-      return { index, result: checkpoint!.results[index], skipped: true };
+      return { index, skipped: true, failed: false, missing: 0, requests: 0 };
     }
 
-    console.log(`  📝 Processing batch ${index + 1}/${batches.length} (${batch.length} items)...`);
-
-    try {
-      const prompt = getClassificationPrompt({ target, language, batch });
-      const { text } = await generateText({
-        model,
-        prompt,
-      });
-
-      // Save successful batch immediately
-      saveBatchResult(checkpointPath, index, text, checkpoint!);
-      console.log(`  ✓ Batch ${index + 1}/${batches.length} completed and saved`);
-      return { index, result: text, skipped: false };
-    } catch (error: any) {
-      console.error(`  ❌ Batch ${index + 1} failed: ${error.message || error}`);
-      return { index, result: null, skipped: false };
+    const pendingRows = getPendingRows(batch, checkpoint!.results[index]);
+    // Nothing to ask for; an empty prompt would still be a paid request
+    if (pendingRows.length === 0) {
+      return { index, skipped: true, failed: false, missing: 0, requests: 0 };
     }
-  });
-
-  console.log(`⏳ Processing ${batches.length - checkpoint.processedBatches.length} remaining batches...`);
-  const batchResults = await Promise.all(promises);
+    const batchLabel = `${labelPrefix}batch ${index + 1}/${batches.length} (${pendingRows.length} items)`;
+    const batchJobKey: BatchJobKey = {
+      model: modelType, language: getLanguage(language).code, target, split, step: checkpointName, batchIndex: index, variant
+    };
 
-  // Collect all results (including previously processed ones)
-  const allResultStrings: string[] = [];
-  for (let i = 0; i < batches.length; i++) {
-    const result = checkpoint.results[i];
-    if (result) {
-      allResultStrings.push(result);
+    if (context.dryRun) {
+      recordDryRunBatch(
+        context.dryRun,
+        batchJobKey,
+        pendingRows.length,
+        buildBatchPrompt(context, pendingRows)
+      );
+      return { index, skipped: true, failed: false, missing: 0, requests: 0 };
     }
-  }
 
-  // Check for failed batches
-  const failedBatches = batchResults.filter(r => !r.skipped && r.result === null);
-  if (failedBatches.length > 0) {
-    console.error(`⚠️ ${failedBatches.length} batches failed. Re-run to retry failed batches.`);
-  }
-
-  const allResults: Array<{ text: string, label: string, explanation: string }> = [];
+    if (context.batchJobs) {
+      return handleBatchJob(
+        context,
+        context.batchJobs,
+        batchJobKey,
+        pendingRows,
+        checkpointPath,
+        checkpoint!,
+        batchLabel
+      );
+    }
 
-  for (const batchResult of allResultStrings) {
-    const cleanedResult = cleanTsvOutput(batchResult);
-    const lines = cleanedResult.split('\n');
+    try {
+      const result = await requestWithSplitting(context, pendingRows, batchLabel, index);
 
-    for (const line of lines) {
-      if (line.startsWith("text")) {
-        continue;
+      // Save successful batch immediately, keeping partial results of incomplete ones
+      saveBatchResult(checkpointPath, index, result.records, checkpoint!, result.usage, result.missingIds);
+      if (result.missingIds.length > 0) {
+        console.warn(`  ⚠️ Batch ${index + 1}/${batches.length}: ${result.missingIds.length} row(s) still missing after splitting`);
+      } else {
+        console.log(`  ✓ Batch ${index + 1}/${batches.length} completed and saved`);
+      }
+      return { index, skipped: false, failed: false, missing: result.missingIds.length, requests: result.requests };
+    } catch (error: any) {
+      // Not a failure: the batch is sent again when the run is resumed
+      if (error instanceof BatchRequestError && error.failure.category === 'shutdown') {
+        console.log(`  ⏸️ Batch ${index + 1}/${batches.length} interrupted before it was answered`);
+        return { index, skipped: true, failed: false, missing: 0, requests: 0 };
       }
+      console.error(`  ❌ Batch ${index + 1} failed: ${error.message || error}`);
+      if (error instanceof BatchRequestError) {
+        saveBatchFailure(checkpointPath, index, error.failure, checkpoint!);
+      }
+      return { index, skipped: false, failed: true, missing: pendingRows.length, requests: 1 };
+    }
+  };
+
+  const progress: BatchProgress = {
+    modelType,
+    target,
+    split,
+    step: checkpointName,
+    total: batches.length,
+    completed: countProcessedBatches(batches, checkpoint),
+    failed: 0
+  };
+  progressListener?.({ ...progress });
 
-      if (line.trim()) {
-        const parts = line.split('\t');
-        if (parts.length >= 3) {
-          allResults.push({
-            text: parts[0],
-            label: parts[1],
-            explanation: parts[2]
-          });
-        }
+  const promises = batches.map(async (batch, index) => {
+    const outcome = await runBatch(batch, index);
+    if (!outcome.skipped) {
+      if (outcome.failed) {
+        progress.failed++;
+      } else {
+        progress.completed++;
       }
+      progressListener?.({ ...progress });
     }
+    return outcome;
+  });
+
+  const batchOutcomes = await Promise.all(promises);
+  logBatchOutcomes(batchOutcomes, checkpoint, batches.length);
+
+  // Collect all results (including previously processed ones)
+  const allRecords: Output[] = [];
+  for (let i = 0; i < batches.length; i++) {
+    allRecords.push(...collectBatchRecords(batches[i], checkpoint.results[i]) as Output[]);
   }
 
-  return allResults;
-};
\ No newline at end of file
+  return allRecords;
+};
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import fs from "fs";
+import path from "path";
+import { loadPromptTemplate } from "../prompts/templates";
+import { createClassifyTask } from "../tasks/classify";
+import { getLabelSet } from "../utils/label-sets";
+import { createMockModel, loadMockScript } from "../utils/mock-model";
+import { runAnnotationTask } from "./batch-processor";
+import {
+  CHECKPOINT_DIR,
+  CheckpointConflictError,
+  CHECKPOINT_VERSION,
+  getCheckpointPath,
+  loadCheckpoint,
+  saveCheckpoint,
+  type CheckpointData
+} from "./checkpoint";
+
+const MODEL_TYPE = "checkpoint-test";
+const template = loadPromptTemplate("v2", "classify");
+const task = createClassifyTask(getLabelSet("stance"), 1, template);
+const rows = [2, 3].map(id => ({ id, text: `texto ${id} sobre lula` }));
+const records = rows.map(row => ({ id: row.id, label: "for", confidence: 0.9, explanation: "Apoia." }));
+
+const unversionedPath = getCheckpointPath(MODEL_TYPE, "lula", "classify", false, "portuguese");
+const versionedPath = getCheckpointPath(MODEL_TYPE, "lula", "classify", false, "portuguese", { promptVersion: "v2" });
+
+const writeCheckpoint = (checkpointPath: string, promptTemplate?: CheckpointData["promptTemplate"]) => {
+  saveCheckpoint(checkpointPath, {
+    version: CHECKPOINT_VERSION,
+    processedBatches: [0],
+    results: { 0: records },
+    target: "lula",
+    language: "portuguese",
+    action: "classify",
+    labelSet: "stance",
+    promptTemplate,
+    totalBatches: 1,
+    modelType: MODEL_TYPE,
+    lastUpdated: new Date().toISOString()
+  });
+};
+
+// Every request fails, so answers can only come from the checkpoint
+const run = () => runAnnotationTask({
+  task,
+  model: createMockModel(loadMockScript('{"failFirst": 100, "failStatus": 401}')),
+  modelType: MODEL_TYPE,
+  target: "lula",
+  split: "test",
+  language: "portuguese",
+  outputMode: "tsv"
+}, rows);
+
+afterEach(() => {
+  fs.readdirSync(CHECKPOINT_DIR)
+    .filter(file => file.startsWith(`checkpoint-${MODEL_TYPE}-`))
+    .forEach(file => fs.unlinkSync(path.join(CHECKPOINT_DIR, file)));
+});
+
+describe("getCheckpointPath", () => {
+  test("names checkpoints after the prompt version, or the variant", () => {
+    expect(path.basename(versionedPath)).toBe("checkpoint-checkpoint-test-lula-classify-test-pt~v2.json");
+    expect(path.basename(getCheckpointPath("gpt-5", "lula", "classify", true, "en", { promptVersion: "v2", variant: "v2" })))
+      .toBe("checkpoint-gpt-5-lula-classify-train-en@v2.json");
+  });
+});
+
+describe("checkpoints of other prompts", () => {
+  test("from before versions were in the name are taken over when written with the same template", async () => {
+    writeCheckpoint(unversionedPath, { id: template.id, hash: template.hash });
+    const { records: resumed } = await run();
+    expect(resumed).toEqual(records);
+    expect(fs.existsSync(unversionedPath)).toBe(false);
+    expect(loadCheckpoint(versionedPath)?.processedBatches).toEqual([0]);
+  });
+
+  test("from before versions were in the name are left alone when written with another version", async () => {
+    writeCheckpoint(unversionedPath, { id: "v3/classify", hash: "aaaaaaaaaaaa" });
+    const before = fs.readFileSync(unversionedPath, "utf-8");
+    const { records: resumed } = await run();
+    expect(resumed).toEqual([]);
+    expect(fs.readFileSync(unversionedPath, "utf-8")).toBe(before);
+    expect(loadCheckpoint(versionedPath)?.promptTemplate).toEqual({ id: template.id, hash: template.hash });
+  });
+
+  test("stop the run instead of being overwritten when the template was edited since", async () => {
+    writeCheckpoint(versionedPath, { id: template.id, hash: "aaaaaaaaaaaa" });
+    const before = fs.readFileSync(versionedPath, "utf-8");
+    await expect(run()).rejects.toBeInstanceOf(CheckpointConflictError);
+    expect(fs.readFileSync(versionedPath, "utf-8")).toBe(before);
+  });
+});
@@ -1,16 +1,46 @@
+import crypto from "crypto";
 import fs from "fs";
 import path from "path";
+import { z } from "zod";
+import { ORIGINAL_PROMPT_VERSION, type PromptTemplate } from "../prompts/templates";
+import { parseBatchResponse, type BatchRecord, type OutputMode, type RecordFormat } from "./response-parser";
+import { getLanguage } from "../utils/languages";
+import type { BatchFailure } from "./retry";
+import type { TokenUsage } from "./usage";
 
 export const CHECKPOINT_DIR = './dataset/checkpoints';
 
+// Bumped whenever stored results can no longer be read back by the current code
+export const CHECKPOINT_VERSION = 3;
+
 export interface CheckpointData {
+  version: number;
+  // Batches whose rows were all answered
   processedBatches: number[];
-  results: { [batchIndex: number]: string };
+  // Validated records per batch, including partial results of incomplete batches
+  results: { [batchIndex: number]: BatchRecord[] };
+  // Rows of incomplete batches still unanswered after splitting
+  missingIds?: { [batchIndex: number]: number[] };
+  // Tokens spent on each processed batch
+  usage?: { [batchIndex: number]: TokenUsage };
+  // Why the last attempt at a still-unprocessed batch failed
+  failures?: { [batchIndex: number]: BatchFailure };
   target: string;
+  // Language the records are written in
   language: string;
-  action: 'explain' | 'classify';
+  // Name of the annotation task
+  action: string;
+  // Label set the records were produced with; missing means the default set
+  labelSet?: string;
+  // Prompt template the records were produced with; missing means the default
+  // version, from before prompts were templates
+  promptTemplate?: { id: string; hash: string };
+  // Examples every prompt included; missing means none
+  fewShot?: FewShotIdentity;
   totalBatches: number;
   modelType: string;
+  // Output mode of the most recent run
+  outputMode?: OutputMode;
   lastUpdated: string;
 }
 
@@ -19,20 +49,109 @@ if (!fs.existsSync(CHECKPOINT_DIR)) {
   fs.mkdirSync(CHECKPOINT_DIR, { recursive: true });
 }
 
+// Local model names may contain "/" and ":"
+const getCheckpointPrefix = (modelType: string, target: string, action: string, isTrainFile: boolean): string => {
+  return `checkpoint-${modelType.replace(/[^A-Za-z0-9.-]+/g, '-')}-${target}-${action}-${isTrainFile ? 'train' : 'test'}`;
+};
+
+// Few-shot prompts differ with the number of examples and the pool they are drawn from
+export interface FewShotIdentity {
+  count: number;
+  poolPath: string;
+}
+
+// What a run's prompts are made of. Checkpoints are named after it, so runs with
+// other prompts never resume or overwrite each other's answers.
+export interface CheckpointIdentity {
+  promptVersion: string;
+  // Prompt variant, in experiments with several; variants are prompt versions
+  variant?: string;
+  fewShot?: FewShotIdentity;
+}
+
+// Raised when a checkpoint can't be resumed, and starting over would overwrite it
+export class CheckpointConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CheckpointConflictError';
+  }
+}
+
+const getIdentitySuffix = ({ promptVersion, variant, fewShot }: CheckpointIdentity): string => {
+  const version = variant ? `@${variant}` : `~${promptVersion}`;
+  if (!fewShot) {
+    return version;
+  }
+  const poolHash = crypto.createHash('sha256').update(path.resolve(fewShot.poolPath)).digest('hex').slice(0, 8);
+  return `${version}+fewshot${fewShot.count}-${poolHash}`;
+};
+
+// The language is the one of the output file the checkpoint belongs to. Without
+// an identity, the name checkpoints had before prompt versions were part of it.
 export const getCheckpointPath = (
   modelType: string,
   target: string,
-  action: 'explain' | 'classify',
+  action: string,
+  isTrainFile: boolean,
+  language: string,
+  identity?: CheckpointIdentity
+): string => {
+  const suffix = `${getLanguage(language).code}${identity ? getIdentitySuffix(identity) : ''}`;
+  return path.join(CHECKPOINT_DIR, `${getCheckpointPrefix(modelType, target, action, isTrainFile)}-${suffix}.json`);
+};
+
+// Where checkpoints were kept before the language was part of the name
+export const getLegacyCheckpointPath = (
+  modelType: string,
+  target: string,
+  action: string,
   isTrainFile: boolean
 ): string => {
-  return path.join(
-    CHECKPOINT_DIR,
-    `checkpoint-${modelType}-${target}-${action}-${isTrainFile ? 'train' : 'test'}.json`
-  );
+  return path.join(CHECKPOINT_DIR, `${getCheckpointPrefix(modelType, target, action, isTrainFile)}.json`);
+};
+
+// Legacy checkpoints are resumed by runs in the language they were written in
+export const loadLegacyCheckpoint = (
+  modelType: string,
+  target: string,
+  action: string,
+  isTrainFile: boolean,
+  language: string
+): CheckpointData | null => {
+  const checkpoint = loadCheckpoint(getLegacyCheckpointPath(modelType, target, action, isTrainFile));
+  return checkpoint?.language === language ? checkpoint : null;
+};
+
+// Checkpoints named before prompt versions were, in this language, whichever
+// prompt version they were written with
+export const findUnversionedCheckpoint = (
+  modelType: string,
+  target: string,
+  action: string,
+  isTrainFile: boolean,
+  language: string
+): { path: string; checkpoint: CheckpointData } | null => {
+  const unversionedPath = getCheckpointPath(modelType, target, action, isTrainFile, language);
+  const unversioned = loadCheckpoint(unversionedPath);
+  if (unversioned) {
+    return { path: unversionedPath, checkpoint: unversioned };
+  }
+  const legacy = loadLegacyCheckpoint(modelType, target, action, isTrainFile, language);
+  return legacy ? { path: getLegacyCheckpointPath(modelType, target, action, isTrainFile), checkpoint: legacy } : null;
+};
+
+// Checkpoints without a template were written with the prompts that became the first version
+export const isWrittenWithTemplate = (checkpoint: CheckpointData, template: PromptTemplate, taskName: string): boolean => {
+  return checkpoint.promptTemplate
+    ? checkpoint.promptTemplate.hash === template.hash
+    : template.id === `${ORIGINAL_PROMPT_VERSION}/${taskName}`;
 };
 
+// Written aside and renamed, so an interrupted run never leaves half a checkpoint
 export const saveCheckpoint = (checkpointPath: string, data: CheckpointData) => {
-  fs.writeFileSync(checkpointPath, JSON.stringify(data, null, 2));
+  const tempPath = `${checkpointPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tempPath, checkpointPath);
 };
 
 export const loadCheckpoint = (checkpointPath: string): CheckpointData | null => {
@@ -40,25 +159,78 @@ export const loadCheckpoint = (checkpointPath: string): CheckpointData | null =>
     return null;
   }
   try {
-    const data = fs.readFileSync(checkpointPath, 'utf-8');
-    return JSON.parse(data) as CheckpointData;
+    const data = JSON.parse(fs.readFileSync(checkpointPath, 'utf-8')) as CheckpointData;
+    if (data.version === 2) {
+      return migrateRawResults(data);
+    }
+    if (data.version !== CHECKPOINT_VERSION) {
+      console.warn(`⚠️ Ignoring outdated checkpoint ${checkpointPath} (version ${data.version ?? 1}, expected ${CHECKPOINT_VERSION})`);
+      return null;
+    }
+    return data;
   } catch (error) {
     console.error(`Error loading checkpoint: ${error}`);
     return null;
   }
 };
 
+// Both tasks answered with id, label and explanation when version 2 was current
+const LEGACY_RECORD_FORMAT: RecordFormat = {
+  schema: z.object({ id: z.number().int(), label: z.string(), explanation: z.string() }),
+  tsvFields: ['label', 'explanation']
+};
+
+// Version 2 stored the raw response of each batch; later versions store the parsed records
+const migrateRawResults = (data: CheckpointData): CheckpointData => {
+  const rawResults = data.results as unknown as { [batchIndex: number]: string };
+  const results: CheckpointData["results"] = {};
+  for (const [batchIndex, raw] of Object.entries(rawResults)) {
+    results[Number(batchIndex)] = parseBatchResponse(raw, data.outputMode ?? 'tsv', LEGACY_RECORD_FORMAT).records;
+  }
+  return { ...data, version: CHECKPOINT_VERSION, results };
+};
+
+// Merges the records into the batch and marks it processed once no rows are missing
 export const saveBatchResult = (
   checkpointPath: string,
   batchIndex: number,
-  result: string,
+  records: BatchRecord[],
+  checkpoint: CheckpointData,
+  usage?: TokenUsage,
+  missingIds: number[] = []
+) => {
+  checkpoint.results[batchIndex] = [...(checkpoint.results[batchIndex] ?? []), ...records];
+  if (missingIds.length === 0) {
+    checkpoint.processedBatches.push(batchIndex);
+    delete checkpoint.missingIds?.[batchIndex];
+  } else {
+    checkpoint.missingIds = { ...checkpoint.missingIds, [batchIndex]: missingIds };
+  }
+  if (usage) {
+    const previous = checkpoint.usage?.[batchIndex];
+    checkpoint.usage = {
+      ...checkpoint.usage,
+      [batchIndex]: {
+        inputTokens: (previous?.inputTokens ?? 0) + usage.inputTokens,
+        outputTokens: (previous?.outputTokens ?? 0) + usage.outputTokens
+      }
+    };
+  }
+  delete checkpoint.failures?.[batchIndex];
+  checkpoint.lastUpdated = new Date().toISOString();
+  saveCheckpoint(checkpointPath, checkpoint);
+  console.log(`  💾 Saved batch ${batchIndex + 1}/${checkpoint.totalBatches} to checkpoint${missingIds.length > 0 ? ` (${missingIds.length} rows missing)` : ''}`);
+};
+
+export const saveBatchFailure = (
+  checkpointPath: string,
+  batchIndex: number,
+  failure: BatchFailure,
   checkpoint: CheckpointData
 ) => {
-  checkpoint.processedBatches.push(batchIndex);
-  checkpoint.results[batchIndex] = result;
+  checkpoint.failures = { ...checkpoint.failures, [batchIndex]: failure };
   checkpoint.lastUpdated = new Date().toISOString();
   saveCheckpoint(checkpointPath, checkpoint);
-  console.log(`  💾 Saved batch ${batchIndex + 1}/${checkpoint.totalBatches} to checkpoint`);
 };
 
 export const clearCheckpoints = () => {
@@ -70,4 +242,9 @@ export const clearCheckpoints = () => {
     });
     console.log(`✅ Cleared ${files.length} checkpoint files`);
   }
-};
\ No newline at end of file
+};
+export const deleteCheckpoint = (checkpointPath: string) => {
+  if (fs.existsSync(checkpointPath)) {
+    fs.unlinkSync(checkpointPath);
+  }
+};
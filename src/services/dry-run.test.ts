@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadPromptTemplate } from "../prompts/templates";
+import { createClassifyTask } from "../tasks/classify";
+import { getLabelSet } from "../utils/label-sets";
+import { createMockModel, loadMockScript } from "../utils/mock-model";
+import { findModelConfig } from "../utils/models";
+import { runAnnotationTask } from "./batch-processor";
+import { getCheckpointPath } from "./checkpoint";
+import { createDryRun, recordDryRunBatch } from "./dry-run";
+
+const modelConfig = findModelConfig("gpt-5")!;
+const key = { model: "gpt-5", language: "pt", target: "lula", split: "test" as const, step: "classify", batchIndex: 2 };
+
+let promptsDir: string;
+
+beforeAll(() => {
+  promptsDir = fs.mkdtempSync(path.join(os.tmpdir(), "dry-run-"));
+});
+
+afterAll(() => {
+  fs.rmSync(promptsDir, { recursive: true, force: true });
+});
+
+describe("recordDryRunBatch", () => {
+  test("writes the prompt and estimates its tokens", () => {
+    const dryRun = createDryRun(modelConfig, promptsDir);
+    recordDryRunBatch(dryRun, key, 10, "um prompt");
+    recordDryRunBatch(dryRun, { ...key, variant: "v2" }, 10, "um prompt");
+
+    expect(dryRun.batches[0]).toMatchObject({ rows: 10, outputTokens: 800, warnings: [] });
+    expect(dryRun.batches[0].inputTokens).toBeGreaterThan(0);
+    expect(fs.readFileSync(path.join(promptsDir, "lula-test-classify-batch-003.txt"), "utf-8")).toBe("um prompt");
+    // Prompt variants get a directory each
+    expect(dryRun.batches[1].promptPath).toBe(path.join(promptsDir, "v2", "lula-test-classify-batch-003.txt"));
+  });
+
+  test("flags batches close to the context or output limit", () => {
+    const dryRun = createDryRun({ ...modelConfig, options: {}, limits: { contextTokens: 1000, outputTokens: 500 } }, promptsDir);
+    recordDryRunBatch(dryRun, key, 10, "um prompt");
+    expect(dryRun.batches[0].warnings).toEqual([
+      expect.stringContaining("tokens for a context of 1,000"),
+      expect.stringContaining("output tokens for a limit of 500, likely truncated")
+    ]);
+  });
+});
+
+describe("dry runs", () => {
+  test("render every batch without calling the model or saving a checkpoint", async () => {
+    const dryRun = createDryRun(modelConfig, path.join(promptsDir, "run"));
+    // Any call to the model would fail
+    const model = createMockModel(loadMockScript('{"failFirst": 100, "failStatus": 401}'));
+    const rows = Array.from({ length: 3 }, (_, index) => ({ id: index + 2, text: `texto ${index + 2} sobre lula` }));
+    const context = {
+      task: createClassifyTask(getLabelSet("stance"), 1, loadPromptTemplate("v2", "classify")),
+      model,
+      modelType: "dry-run-test",
+      target: "lula",
+      split: "test" as const,
+      language: "portuguese",
+      outputMode: "tsv" as const,
+      dryRun
+    };
+
+    const { records } = await runAnnotationTask(context, rows);
+    expect(records).toEqual([]);
+    expect(dryRun.batches).toHaveLength(1);
+    expect(fs.readFileSync(dryRun.batches[0].promptPath, "utf-8")).toContain("texto 3 sobre lula");
+    expect(fs.existsSync(getCheckpointPath("dry-run-test", "lula", "classify", false, "portuguese", { promptVersion: "v2" }))).toBe(false);
+  });
+});
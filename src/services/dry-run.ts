@@ -0,0 +1,143 @@
+import fs from "fs";
+import path from "path";
+import { estimateTokens } from "../utils/common";
+import type { ModelConfig } from "../utils/models";
+import { estimateCost, formatCost, MODEL_PRICES } from "../utils/pricing";
+import type { BatchJobKey } from "./batch-jobs";
+
+// With --dry-run every pending batch is rendered and written to disk instead of
+// being sent, and the run ends with the expected size and cost of each step
+
+export const DEFAULT_PROMPTS_DIR = './dataset/prompts';
+
+// A label, a confidence and one or two sentences of explanation, with the JSON
+// or TSV around them. Reasoning tokens are not included.
+export const ESTIMATED_OUTPUT_TOKENS_PER_ROW = 80;
+
+// Batches estimated above this share of a limit are flagged
+const LIMIT_WARNING_RATIO = 0.8;
+
+export interface DryRunBatch extends BatchJobKey {
+  rows: number;
+  promptPath: string;
+  inputTokens: number;
+  outputTokens: number;
+  warnings: string[];
+}
+
+export interface DryRun {
+  modelConfig: ModelConfig;
+  promptsDir: string;
+  batches: DryRunBatch[];
+}
+
+export const createDryRun = (modelConfig: ModelConfig, promptsDir = DEFAULT_PROMPTS_DIR): DryRun => ({
+  modelConfig,
+  promptsDir,
+  batches: []
+});
+
+// The output limit is the registry's maxOutputTokens option when set, since
+// that is what the request asks for
+const getBatchWarnings = (modelConfig: ModelConfig, inputTokens: number, outputTokens: number): string[] => {
+  const warnings: string[] = [];
+  const { contextTokens } = modelConfig.limits;
+  const outputLimit = modelConfig.options.maxOutputTokens ?? modelConfig.limits.outputTokens;
+  if (contextTokens && inputTokens + outputTokens > contextTokens * LIMIT_WARNING_RATIO) {
+    warnings.push(`~${(inputTokens + outputTokens).toLocaleString()} tokens for a context of ${contextTokens.toLocaleString()}`);
+  }
+  if (outputLimit && outputTokens > outputLimit * LIMIT_WARNING_RATIO) {
+    warnings.push(`~${outputTokens.toLocaleString()} output tokens for a limit of ${outputLimit.toLocaleString()}, likely truncated`);
+  }
+  return warnings;
+};
+
+export const recordDryRunBatch = (dryRun: DryRun, key: BatchJobKey, rows: number, prompt: string) => {
+  // "lula-test-classify-batch-003.txt"
+  const fileName = `${key.target}-${key.split}-${key.step}-batch-${String(key.batchIndex + 1).padStart(3, '0')}.txt`;
+  // Prompt variants of an experiment get a directory each
+  const promptsDir = path.join(dryRun.promptsDir, key.variant ?? '');
+  const promptPath = path.join(promptsDir, fileName);
+  fs.mkdirSync(promptsDir, { recursive: true });
+  fs.writeFileSync(promptPath, prompt);
+
+  const inputTokens = estimateTokens(prompt);
+  const outputTokens = rows * ESTIMATED_OUTPUT_TOKENS_PER_ROW;
+  dryRun.batches.push({
+    ...key,
+    rows,
+    promptPath,
+    inputTokens,
+    outputTokens,
+    warnings: getBatchWarnings(dryRun.modelConfig, inputTokens, outputTokens)
+  });
+};
+
+export const printDryRunSummary = (dryRun: DryRun) => {
+  const { modelConfig, batches } = dryRun;
+  if (batches.length === 0) {
+    console.log(`\n🧪 Dry run: no pending batches, nothing would be sent`);
+    return;
+  }
+
+  const steps = new Map<string, DryRunBatch[]>();
+  for (const batch of batches) {
+    const key = [batch.variant ?? '', batch.target, batch.split, batch.step].join('|');
+    steps.set(key, [...(steps.get(key) ?? []), batch]);
+  }
+
+  console.log(`\n🧪 DRY RUN: ESTIMATED SIZE AND COST WITH ${modelConfig.displayName}`);
+  console.log("=".repeat(100));
+  console.log(
+    "Target".padEnd(14) + "Split".padEnd(8) + "Step".padEnd(20) + "Batches".padEnd(9) +
+    "Rows".padEnd(8) + "Input".padEnd(14) + "Output (est.)".padEnd(15) + "Cost"
+  );
+  console.log("-".repeat(100));
+
+  const sum = (items: DryRunBatch[], field: 'rows' | 'inputTokens' | 'outputTokens') =>
+    items.reduce((total, batch) => total + batch[field], 0);
+  const cost = (items: DryRunBatch[]) =>
+    estimateCost(modelConfig.id, { inputTokens: sum(items, 'inputTokens'), outputTokens: sum(items, 'outputTokens') });
+
+  for (const items of steps.values()) {
+    const { target, split, step, variant } = items[0];
+    console.log(
+      target.padEnd(14) +
+      split.padEnd(8) +
+      (variant ? `${step} (${variant})` : step).padEnd(20) +
+      String(items.length).padEnd(9) +
+      String(sum(items, 'rows')).padEnd(8) +
+      sum(items, 'inputTokens').toLocaleString().padEnd(14) +
+      sum(items, 'outputTokens').toLocaleString().padEnd(15) +
+      formatCost(cost(items))
+    );
+  }
+
+  console.log("-".repeat(100));
+  console.log(
+    "TOTAL".padEnd(42) +
+    String(batches.length).padEnd(9) +
+    String(sum(batches, 'rows')).padEnd(8) +
+    sum(batches, 'inputTokens').toLocaleString().padEnd(14) +
+    sum(batches, 'outputTokens').toLocaleString().padEnd(15) +
+    formatCost(cost(batches))
+  );
+  if (!MODEL_PRICES[modelConfig.id]) {
+    console.log(`⚠️ No price known for ${modelConfig.id}; its cost is counted as $0`);
+  }
+  if (!modelConfig.limits.contextTokens && !modelConfig.limits.outputTokens && !modelConfig.options.maxOutputTokens) {
+    console.log(`⚠️ No limits known for ${modelConfig.id}; batch sizes were not checked (set "limits" in config/models.json)`);
+  }
+  console.log("=".repeat(100));
+
+  const flagged = batches.filter(batch => batch.warnings.length > 0);
+  if (flagged.length > 0) {
+    console.warn(`\n⚠️ ${flagged.length} batch(es) may exceed the model's limits:`);
+    for (const batch of flagged) {
+      console.warn(`   ${path.basename(batch.promptPath)}: ${batch.warnings.join('; ')}`);
+    }
+  }
+
+  console.log(`\n📝 ${batches.length} prompts written to ${dryRun.promptsDir}`);
+  console.log(`   Output tokens are estimated at ${ESTIMATED_OUTPUT_TOKENS_PER_ROW} per row; splitting and retries are not included`);
+};
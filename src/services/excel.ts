@@ -1,42 +1,38 @@
 import ExcelJS from "exceljs";
-
-export const readExcelFile = async (filePath: string): Promise<string[]> => {
-  const workbook = new ExcelJS.Workbook();
-  await workbook.xlsx.readFile(filePath);
-  const worksheet = workbook.getWorksheet(1);
-
-  const texts: string[] = [];
-  worksheet?.eachRow((row, rowNumber) => {
-    if (rowNumber > 1) {
-      const cellValue = row.getCell(1).value;
-      if (cellValue) {
-        texts.push(cellValue.toString());
-      }
-    }
-  });
-
-  return texts;
-};
-
-export const readExcelFileWithLabels = async (
-  filePath: string
-): Promise<{ text: string; label: string }[]> => {
+import type { AnnotationTask, TaskColumn, TaskResult } from "../tasks";
+import type { BatchRecord } from "./response-parser";
+
+// Every input row is identified by its row number in the source worksheet.
+// The id is sent to the model with the text and used to write results back.
+export interface SourceRow {
+  id: number;
+  text: string;
+}
+
+export interface LabeledSourceRow extends SourceRow {
+  label: string;
+}
+
+// Reads the rows a task can annotate, with the input fields the task declares
+export const readTaskInputs = async <Input extends SourceRow>(
+  filePath: string,
+  task: AnnotationTask<Input, any>
+): Promise<Input[]> => {
   const workbook = new ExcelJS.Workbook();
   await workbook.xlsx.readFile(filePath);
   const worksheet = workbook.getWorksheet(1);
 
-  const dataRows: { text: string; label: string }[] = [];
+  const rows: Input[] = [];
   worksheet?.eachRow((row, rowNumber) => {
     if (rowNumber > 1) {
-      const text = row.getCell(1).value?.toString() || "";
-      const label = row.getCell(3).value?.toString() || "";
-      if (text && label) {
-        dataRows.push({ text, label });
+      const input = task.readInput(row);
+      if (input) {
+        rows.push({ ...input, id: rowNumber } as Input);
       }
     }
   });
 
-  return dataRows;
+  return rows;
 };
 
 export const writeExcelFile = async (
@@ -59,31 +55,70 @@ export const writeExcelFile = async (
   await workbook.xlsx.writeFile(filePath);
 };
 
-export const updateExcelWithExplanations = async (
-  originalPath: string,
-  explanations: Array<{ text: string, explanation: string }>,
+export const METADATA_SHEET = 'metadata';
+
+// Column number of each header of the first row, so processed files are read
+// by header whatever their layout
+export const getHeaderColumns = (worksheet: ExcelJS.Worksheet): Map<string, number> => {
+  const columns = new Map<string, number>();
+  worksheet.getRow(1).eachCell((cell, column) => {
+    const header = cell.value?.toString().trim();
+    if (header && !columns.has(header)) {
+      columns.set(header, column);
+    }
+  });
+  return columns;
+};
+
+// Task columns moved to where the file has their header; columns the file
+// doesn't have yet stay at the task's position
+export const locateTaskColumns = <Column extends TaskColumn<any>>(
+  columns: Column[],
+  headerColumns: Map<string, number>
+): Column[] => {
+  return columns.map(column => ({ ...column, column: headerColumns.get(column.header) ?? column.column }));
+};
+
+// List fields, like evidence spans, are written as JSON
+export const toCellValue = (value: unknown): ExcelJS.CellValue => {
+  return Array.isArray(value) ? JSON.stringify(value) : value as ExcelJS.CellValue;
+};
+
+// Writes each record into the task's columns of the row it belongs to. With
+// several samples, every sample's answer is also listed in a side sheet. The
+// metadata sheet records which prompt template wrote the columns.
+export const updateExcelWithRecords = async <Output extends BatchRecord>(
+  basePath: string,
+  task: AnnotationTask<any, Output>,
+  { records, samples }: TaskResult<Output>,
   outputPath: string
 ) => {
   const workbook = new ExcelJS.Workbook();
-  await workbook.xlsx.readFile(originalPath);
+  await workbook.xlsx.readFile(basePath);
   const worksheet = workbook.getWorksheet(1);
 
-  const explanationMap = new Map<string, string>();
-  explanations.forEach(item => {
-    explanationMap.set(item.text.trim(), item.explanation);
+  const recordMap = new Map<number, Output>();
+  records.forEach(record => {
+    recordMap.set(record.id, record);
   });
 
-  let headerRow = worksheet?.getRow(1);
+  const columns = worksheet ? locateTaskColumns(task.columns, getHeaderColumns(worksheet)) : task.columns;
+  const headerRow = worksheet?.getRow(1);
   if (headerRow) {
-    headerRow.getCell(7).value = 'human_label_explanation';
+    columns.forEach(({ header, column }) => {
+      headerRow.getCell(column).value = header;
+    });
   }
 
   worksheet?.eachRow((row, rowNumber) => {
     if (rowNumber > 1) {
-      const text = row.getCell(1).value?.toString()?.trim() || "";
-      const explanation = explanationMap.get(text);
-      if (explanation) {
-        row.getCell(7).value = explanation;
+      const record = recordMap.get(rowNumber);
+      if (record) {
+        columns.forEach(({ field, column }) => {
+          if (record[field] !== undefined) {
+            row.getCell(column).value = toCellValue(record[field]);
+          }
+        });
       }
     }
   });
@@ -92,43 +127,72 @@ export const updateExcelWithExplanations = async (
     column.width = 30;
   });
 
+  if (samples.length > 1) {
+    writeSamplesSheet(workbook, task, samples);
+  }
+  writeMetadataSheet(workbook, task);
+
   await workbook.xlsx.writeFile(outputPath);
 };
 
-export const updateExcelWithClassifications = async (
-  basePath: string,
-  classifications: Array<{ text: string, label: string, explanation: string }>,
-  outputPath: string
-) => {
-  const workbook = new ExcelJS.Workbook();
-  await workbook.xlsx.readFile(basePath);
-  const worksheet = workbook.getWorksheet(1);
+// One row per task, with the prompt template and label set its columns were last written with
+const writeMetadataSheet = (workbook: ExcelJS.Workbook, task: AnnotationTask<any, any>) => {
+  const sheet = workbook.getWorksheet(METADATA_SHEET) ?? workbook.addWorksheet(METADATA_SHEET);
+  if (sheet.rowCount === 0) {
+    sheet.addRow(['task', 'prompt_template', 'prompt_hash', 'label_set', 'updated_at']);
+    sheet.columns.forEach(column => {
+      column.width = 30;
+    });
+  }
 
-  const classificationMap = new Map<string, { label: string, explanation: string }>();
-  classifications.forEach(item => {
-    classificationMap.set(item.text.trim(), { label: item.label, explanation: item.explanation });
+  const values = [task.name, task.promptTemplate.id, task.promptTemplate.hash, task.labelSet.name, new Date().toISOString()];
+  let existing: ExcelJS.Row | undefined;
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber > 1 && row.getCell(1).value === task.name) {
+      existing = row;
+    }
   });
-
-  let headerRow = worksheet?.getRow(1);
-  if (headerRow) {
-    headerRow.getCell(8).value = 'llm_label';
-    headerRow.getCell(9).value = 'llm_label_explanation';
+  if (existing) {
+    values.forEach((value, index) => {
+      existing!.getCell(index + 1).value = value;
+    });
+  } else {
+    sheet.addRow(values);
   }
+};
 
-  worksheet?.eachRow((row, rowNumber) => {
+// Prompt template of each task, as recorded in the metadata sheet
+export const readPromptTemplates = (workbook: ExcelJS.Workbook): Map<string, { id: string; hash: string }> => {
+  const templates = new Map<string, { id: string; hash: string }>();
+  workbook.getWorksheet(METADATA_SHEET)?.eachRow((row, rowNumber) => {
     if (rowNumber > 1) {
-      const text = row.getCell(1).value?.toString()?.trim() || "";
-      const classification = classificationMap.get(text);
-      if (classification) {
-        row.getCell(8).value = classification.label;
-        row.getCell(9).value = classification.explanation;
-      }
+      templates.set(String(row.getCell(1).value), { id: String(row.getCell(2).value), hash: String(row.getCell(3).value) });
     }
   });
+  return templates;
+};
 
-  worksheet?.columns.forEach(column => {
-    column.width = 30;
+const writeSamplesSheet = <Output extends BatchRecord>(
+  workbook: ExcelJS.Workbook,
+  task: AnnotationTask<any, Output>,
+  samples: Output[][]
+) => {
+  const sheetName = `${task.name}_samples`;
+  const existing = workbook.getWorksheet(sheetName);
+  if (existing) {
+    workbook.removeWorksheet(existing.id);
+  }
+
+  const sheet = workbook.addWorksheet(sheetName);
+  sheet.addRow(['row', 'sample', ...task.tsvFields]);
+  const rows = samples
+    .flatMap((records, index) => records.map(record => ({ record, sample: index + 1 })))
+    .sort((a, b) => a.record.id - b.record.id || a.sample - b.sample);
+  rows.forEach(({ record, sample }) => {
+    sheet.addRow([record.id, sample, ...task.tsvFields.map(field => toCellValue(record[field]))]);
   });
 
-  await workbook.xlsx.writeFile(outputPath);
-};
\ No newline at end of file
+  sheet.columns.forEach(column => {
+    column.width = 30;
+  });
+};
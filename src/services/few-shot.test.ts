@@ -0,0 +1,81 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import ExcelJS from "exceljs";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { getLabelSet } from "../utils/label-sets";
+import { getCheckpointPath } from "./checkpoint";
+import { loadExamplePool, selectExamples, type ExamplePool } from "./few-shot";
+
+let tempDir: string;
+let pool: ExamplePool;
+
+const writeSheet = async (filePath: string, rows: string[][]) => {
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet();
+  worksheet.addRow(["text", "", "label"]);
+  rows.forEach(row => worksheet.addRow(row));
+  await workbook.xlsx.writeFile(filePath);
+};
+
+beforeAll(async () => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "few-shot-"));
+  await writeSheet(path.join(tempDir, "train.xlsx"), [
+    ["lula reforma a previdência", "", "for"],
+    ["lula corta impostos", "", "for"],
+    ["lula perde a eleição", "", "against"],
+    ["lula aumenta impostos", "", "against"],
+    ["o tempo está bom", "", "neutral"],
+    ["texto do teste", "", "for"]
+  ]);
+  await writeSheet(path.join(tempDir, "test.xlsx"), [["texto do teste", "", "for"]]);
+  pool = await loadExamplePool(path.join(tempDir, "train.xlsx"), getLabelSet("stance"), [path.join(tempDir, "test.xlsx")]);
+});
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("loadExamplePool", () => {
+  test("keeps rows labeled in the set and leaves out texts of the excluded files", () => {
+    expect(pool.examples.map(example => example.text)).toEqual([
+      "lula reforma a previdência",
+      "lula corta impostos",
+      "lula perde a eleição",
+      "lula aumenta impostos"
+    ]);
+  });
+});
+
+describe("selectExamples", () => {
+  test("takes the closest examples, labels in turn", () => {
+    const examples = selectExamples(pool, [{ id: 2, text: "impostos do lula" }], 2);
+    expect(examples.map(example => example.label)).toEqual(["for", "against"]);
+    expect(examples.map(example => example.text)).toEqual(["lula corta impostos", "lula aumenta impostos"]);
+  });
+
+  test("skips examples with the text of a row of the batch", () => {
+    const examples = selectExamples(pool, [{ id: 2, text: "Lula corta impostos" }], 4);
+    expect(examples.map(example => example.text)).not.toContain("lula corta impostos");
+    expect(examples).toHaveLength(3);
+  });
+
+  test("selects nothing for zero examples", () => {
+    expect(selectExamples(pool, [{ id: 2, text: "impostos" }], 0)).toEqual([]);
+  });
+});
+
+describe("few-shot checkpoints", () => {
+  const checkpointPath = (fewShot?: { count: number; poolPath: string }) =>
+    getCheckpointPath("gpt-5", "lula", "classify", false, "pt", { promptVersion: "v3", fewShot });
+
+  test("are kept apart from zero-shot ones and by example count and pool", () => {
+    const paths = new Set([
+      checkpointPath(),
+      checkpointPath({ count: 4, poolPath: "dataset/lula_train.xlsx" }),
+      checkpointPath({ count: 8, poolPath: "dataset/lula_train.xlsx" }),
+      checkpointPath({ count: 4, poolPath: "processed-gpt-5-pt/lula_train.xlsx" })
+    ]);
+    expect(paths.size).toBe(4);
+  });
+});
@@ -0,0 +1,158 @@
+import ExcelJS from "exceljs";
+import { getLabelNames, type LabelSet } from "../utils/label-sets";
+import { getHeaderColumns, type SourceRow } from "./excel";
+
+export interface FewShotExample {
+  text: string;
+  label: string;
+  // Human label explanation, when the pool comes from an already processed file
+  explanation?: string;
+}
+
+type TermVector = Map<string, number>;
+
+export interface ExamplePool {
+  examples: FewShotExample[];
+  vectors: TermVector[];
+  idf: Map<string, number>;
+  labels: string[];
+}
+
+// Frequent Portuguese and English words that say nothing about the topic
+const STOPWORDS = new Set([
+  "que", "nao", "com", "para", "por", "uma", "mais", "como", "mas", "foi", "ele", "ela", "dos", "das",
+  "esse", "essa", "isso", "esta", "este", "tem", "ser", "vai", "sao", "seu", "sua", "pra", "pro", "voce",
+  "the", "and", "for", "you", "this", "that", "with", "are", "was"
+]);
+
+const normalizeText = (text: string): string => {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/\s+/g, " ").trim();
+};
+
+const tokenize = (text: string): string[] => {
+  return normalizeText(text)
+    .replace(/https?:\/\/\S+|@\w+/g, " ")
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length >= 3 && !STOPWORDS.has(token));
+};
+
+const toUnitVector = (counts: TermVector): TermVector => {
+  const norm = Math.sqrt([...counts.values()].reduce((sum, value) => sum + value * value, 0));
+  if (norm > 0) {
+    counts.forEach((value, term) => counts.set(term, value / norm));
+  }
+  return counts;
+};
+
+const toTfIdfVector = (text: string, idf: Map<string, number>): TermVector => {
+  const counts: TermVector = new Map();
+  for (const token of tokenize(text)) {
+    const weight = idf.get(token);
+    if (weight !== undefined) {
+      counts.set(token, (counts.get(token) ?? 0) + weight);
+    }
+  }
+  return toUnitVector(counts);
+};
+
+const readTexts = async (filePath: string): Promise<string[]> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(filePath);
+  const texts: string[] = [];
+  workbook.getWorksheet(1)?.eachRow((row, rowNumber) => {
+    const text = row.getCell(1).value?.toString();
+    if (rowNumber > 1 && text) {
+      texts.push(text);
+    }
+  });
+  return texts;
+};
+
+// Reads labeled rows (text in column 1, label in column 3 and, in processed
+// files, the human label explanation under its header). Rows whose text also
+// appears in one of excludePaths, e.g. the test split, never become examples.
+export const loadExamplePool = async (
+  filePath: string,
+  labelSet: LabelSet,
+  excludePaths: string[] = []
+): Promise<ExamplePool> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(filePath);
+  const worksheet = workbook.getWorksheet(1);
+
+  const labels = getLabelNames(labelSet);
+  const excluded = new Set<string>();
+  for (const excludePath of excludePaths) {
+    (await readTexts(excludePath)).forEach(text => excluded.add(normalizeText(text)));
+  }
+  const examples: FewShotExample[] = [];
+  const explanationColumn = worksheet && getHeaderColumns(worksheet).get('human_label_explanation');
+  worksheet?.eachRow((row, rowNumber) => {
+    if (rowNumber > 1) {
+      const text = row.getCell(1).value?.toString()?.trim() || "";
+      const label = row.getCell(3).value?.toString()?.toLowerCase().trim() || "";
+      const explanation = explanationColumn ? row.getCell(explanationColumn).value?.toString()?.trim() || undefined : undefined;
+      if (text && labels.includes(label) && !excluded.has(normalizeText(text))) {
+        examples.push({ text, label, explanation });
+      }
+    }
+  });
+
+  const documentFrequency = new Map<string, number>();
+  for (const example of examples) {
+    for (const token of new Set(tokenize(example.text))) {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    }
+  }
+  const idf = new Map<string, number>();
+  documentFrequency.forEach((frequency, token) => {
+    idf.set(token, Math.log((examples.length + 1) / (frequency + 1)) + 1);
+  });
+
+  return { examples, vectors: examples.map(example => toTfIdfVector(example.text, idf)), idf, labels };
+};
+
+// Picks the k examples closest to the batch as a whole (cosine similarity to the
+// centroid of its TF-IDF vectors), taking labels in turn so they stay balanced.
+// Examples with the same text as a row of the batch are skipped.
+export const selectExamples = (pool: ExamplePool, batch: SourceRow[], k: number): FewShotExample[] => {
+  if (k <= 0 || pool.examples.length === 0) {
+    return [];
+  }
+
+  const centroid: TermVector = new Map();
+  for (const row of batch) {
+    toTfIdfVector(row.text, pool.idf).forEach((value, term) => centroid.set(term, (centroid.get(term) ?? 0) + value));
+  }
+  toUnitVector(centroid);
+
+  const batchTexts = new Set(batch.map(row => normalizeText(row.text)));
+  const candidatesByLabel = new Map<string, Array<{ example: FewShotExample; score: number }>>(
+    pool.labels.map(label => [label, []])
+  );
+  pool.examples.forEach((example, index) => {
+    if (batchTexts.has(normalizeText(example.text))) {
+      return;
+    }
+    let score = 0;
+    pool.vectors[index].forEach((value, term) => {
+      score += value * (centroid.get(term) ?? 0);
+    });
+    candidatesByLabel.get(example.label)!.push({ example, score });
+  });
+  candidatesByLabel.forEach(candidates => candidates.sort((a, b) => b.score - a.score));
+
+  const selected: FewShotExample[] = [];
+  let remaining = [...candidatesByLabel.values()].filter(candidates => candidates.length > 0);
+  while (selected.length < k && remaining.length > 0) {
+    for (const candidates of remaining) {
+      if (selected.length === k) {
+        break;
+      }
+      selected.push(candidates.shift()!.example);
+    }
+    remaining = remaining.filter(candidates => candidates.length > 0);
+  }
+
+  return selected;
+};
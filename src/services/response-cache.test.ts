@@ -0,0 +1,101 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadPromptTemplate } from "../prompts/templates";
+import { createClassifyTask } from "../tasks/classify";
+import { getLabelSet } from "../utils/label-sets";
+import { createMockModel, loadMockScript, type MockScript } from "../utils/mock-model";
+import { requestWithSplitting } from "./batch-processor";
+import { configureResponseCache, getCacheKey, getCacheStats, readCachedResponse, writeCachedResponse } from "./response-cache";
+import { configureRetryPolicy } from "./retry";
+
+const classify = createClassifyTask(getLabelSet("stance"), 1, loadPromptTemplate("v2", "classify"));
+const rows = [2, 3].map(id => ({ id, text: `texto ${id} sobre lula` }));
+
+let cacheDir: string;
+
+beforeAll(() => {
+  cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "response-cache-"));
+  configureResponseCache({ dir: cacheDir });
+  configureRetryPolicy({ maxAttempts: 1 });
+});
+
+afterAll(() => {
+  configureResponseCache({});
+  configureRetryPolicy({});
+  fs.rmSync(cacheDir, { recursive: true, force: true });
+});
+
+// The mock model is never cached, so it is passed off as another provider and its calls counted
+const getCountingContext = (script: Partial<MockScript> = {}) => {
+  const mock = createMockModel(loadMockScript(JSON.stringify(script)));
+  const calls = { count: 0 };
+  const model = {
+    ...mock,
+    provider: "cache-test",
+    doGenerate: (options: Parameters<typeof mock.doGenerate>[0]) => {
+      calls.count++;
+      return mock.doGenerate(options);
+    }
+  };
+  const context = {
+    task: classify,
+    model,
+    modelType: "gpt-5",
+    target: "lula",
+    split: "test" as const,
+    language: "portuguese",
+    outputMode: "tsv" as const
+  };
+  return { context, calls };
+};
+
+describe("getCacheKey", () => {
+  test("ignores key order and undefined values, not the prompt", () => {
+    const key = getCacheKey({ modelId: "gpt-5", settings: { temperature: 0 }, prompt: "um prompt" });
+    expect(getCacheKey({ prompt: "um prompt", settings: { temperature: 0 }, modelId: "gpt-5", sample: undefined })).toBe(key);
+    expect(getCacheKey({ modelId: "gpt-5", settings: { temperature: 0 }, prompt: "outro prompt" })).not.toBe(key);
+  });
+});
+
+describe("readCachedResponse", () => {
+  test("reads what was written and counts hits and misses", () => {
+    const before = getCacheStats();
+    const key = getCacheKey({ prompt: "round trip" });
+    expect(readCachedResponse(key)).toBeNull();
+    writeCachedResponse(key, "2\tfor");
+    expect(readCachedResponse(key)).toMatchObject({ text: "2\tfor" });
+    expect(getCacheStats()).toEqual({ hits: before.hits + 1, misses: before.misses + 1 });
+  });
+
+  test("neither reads nor writes while disabled", () => {
+    const key = getCacheKey({ prompt: "disabled" });
+    configureResponseCache({ enabled: false });
+    writeCachedResponse(key, "2\tfor");
+    expect(readCachedResponse(key)).toBeNull();
+    configureResponseCache({ dir: cacheDir });
+    expect(readCachedResponse(key)).toBeNull();
+  });
+});
+
+describe("cached requests", () => {
+  test("answer an identical request without calling the model or spending tokens", async () => {
+    const { context, calls } = getCountingContext();
+    const first = await requestWithSplitting(context, rows, "batch");
+    const second = await requestWithSplitting(context, rows, "batch");
+    expect(calls.count).toBe(1);
+    expect(second.records).toEqual(first.records);
+    expect(second.usage).toEqual({ inputTokens: 0, outputTokens: 0 });
+  });
+
+  test("leave out answers with missing rows", async () => {
+    const { context, calls } = getCountingContext({ omitIds: [7] });
+    const incompleteRows = [6, 7].map(id => ({ id, text: `texto ${id} sobre lula` }));
+    await requestWithSplitting(context, incompleteRows, "batch");
+    const afterFirst = calls.count;
+    await requestWithSplitting(context, incompleteRows, "batch");
+    // No answer had row 7, so every request is sent again
+    expect(calls.count).toBe(afterFirst * 2);
+  });
+});
@@ -0,0 +1,84 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+// Successful model responses stored by a hash of everything that shapes them,
+// so an identical request is never paid for twice, whatever the checkpoints say
+export const DEFAULT_CACHE_DIR = './dataset/cache';
+
+export interface CachedResponse {
+  text: string;
+  createdAt: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+let cacheDir: string | null = DEFAULT_CACHE_DIR;
+const stats: CacheStats = { hits: 0, misses: 0 };
+
+export const configureResponseCache = ({ enabled = true, dir = DEFAULT_CACHE_DIR }: { enabled?: boolean; dir?: string }) => {
+  cacheDir = enabled ? dir : null;
+};
+
+export const getCacheStats = (): CacheStats => ({ ...stats });
+
+// Object keys are sorted so the same request always hashes the same way
+const toStableJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(toStableJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${toStableJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+export const getCacheKey = (request: Record<string, unknown>): string => {
+  return crypto.createHash('sha256').update(toStableJson(request)).digest('hex');
+};
+
+const getCachePath = (dir: string, key: string): string => path.join(dir, key.slice(0, 2), `${key}.json`);
+
+export const readCachedResponse = (key: string): CachedResponse | null => {
+  if (!cacheDir) {
+    return null;
+  }
+  const cachePath = getCachePath(cacheDir, key);
+  try {
+    const cached = JSON.parse(fs.readFileSync(cachePath, 'utf-8')) as CachedResponse;
+    stats.hits++;
+    return cached;
+  } catch {
+    stats.misses++;
+    return null;
+  }
+};
+
+export const writeCachedResponse = (key: string, text: string) => {
+  if (!cacheDir) {
+    return;
+  }
+  const cachePath = getCachePath(cacheDir, key);
+  const entry: CachedResponse = { text, createdAt: new Date().toISOString() };
+  fs.mkdirSync(path.dirname(cachePath), { recursive: true });
+  // Written aside and renamed, so concurrent requests never read half a file
+  const tempPath = `${cachePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(entry));
+  fs.renameSync(tempPath, cachePath);
+};
+
+export const printCacheSummary = () => {
+  if (!cacheDir) {
+    console.log(`\n🗄️ Response cache disabled`);
+    return;
+  }
+  const total = stats.hits + stats.misses;
+  const hitRate = total > 0 ? ` (${((stats.hits / total) * 100).toFixed(1)}% hits)` : '';
+  console.log(`\n🗄️ Response cache: ${stats.hits} hits, ${stats.misses} misses${hitRate} in ${cacheDir}`);
+};
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { loadPromptTemplate } from "../prompts/templates";
+import { createClassifyTask } from "../tasks/classify";
+import { getLabelSet } from "../utils/label-sets";
+import { extractJsonResponse, matchBatchIds, parseStructuredResponse, parseTsvResponse } from "./response-parser";
+
+// v2 templates don't ask for evidence spans
+const task = createClassifyTask(getLabelSet("stance"), 1, loadPromptTemplate("v2", "classify"));
+
+describe("parseStructuredResponse", () => {
+  test("normalizes labels and rejects records outside the label set", () => {
+    const raw = JSON.stringify({
+      results: [
+        { id: 2, label: "**For**", confidence: 0.9, explanation: "Apoia." },
+        { id: 3, label: "neutral", confidence: 0.5, explanation: "Nada." }
+      ]
+    });
+    const { records, errors } = parseStructuredResponse(raw, task);
+    expect(records).toEqual([{ id: 2, label: "for", confidence: 0.9, explanation: "Apoia." }]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toStartWith("Item 2 is invalid (label:");
+  });
+
+  test("reports answers without a results array", () => {
+    expect(parseStructuredResponse("[]", task).errors).toEqual(['Response has no "results" array']);
+  });
+});
+
+describe("parseTsvResponse", () => {
+  test("reads confidences written as percentages and keeps stray tabs in the explanation", () => {
+    const raw = "id\tlabel\tconfidence\texplanation\n2\tagainst\t80%\tCritica\to governo.";
+    expect(parseTsvResponse(raw, task).records)
+      .toEqual([{ id: 2, label: "against", confidence: 0.8, explanation: "Critica o governo." }]);
+  });
+
+  test("reads markdown tables", () => {
+    const raw = "| id | label | confidence | explanation |\n|---|---|---|---|\n| 4 | for | 0,7 | Elogia. |";
+    expect(parseTsvResponse(raw, task).records).toEqual([{ id: 4, label: "for", confidence: 0.7, explanation: "Elogia." }]);
+  });
+});
+
+describe("extractJsonResponse", () => {
+  test("finds the JSON inside a code fence", () => {
+    expect(extractJsonResponse('```json\n{"results": []}\n```')).toBe('{"results":[]}');
+  });
+
+  test("takes a bare array as the results", () => {
+    expect(extractJsonResponse('Here you go: [{"id": 2}]')).toBe('{"results":[{"id":2}]}');
+  });
+});
+
+describe("matchBatchIds", () => {
+  test("reports missing, duplicated and unexpected ids", () => {
+    const records = [{ id: 2 }, { id: 2 }, { id: 9 }];
+    const { matched, report } = matchBatchIds([2, 3], records);
+    expect([...matched.keys()]).toEqual([2]);
+    expect(report).toEqual({ missing: [3], duplicated: [2], unexpected: [9] });
+  });
+});
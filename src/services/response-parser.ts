@@ -0,0 +1,197 @@
+import { jsonSchema, zodSchema, type Schema } from "ai";
+import { z } from "zod";
+import { cleanTsvOutput } from "../utils/common";
+
+export type OutputMode = 'structured' | 'tsv';
+
+export const OUTPUT_MODES: OutputMode[] = ['structured', 'tsv'];
+
+// Every record echoes the id of the row it answers; the other fields depend on the task
+export type BatchRecord = { id: number; [field: string]: unknown };
+
+export interface RecordFormat<Output extends BatchRecord = BatchRecord> {
+  // Validates a single record
+  schema: z.ZodType<Output, z.ZodTypeDef, unknown>;
+  // Column order after `id` in TSV mode
+  tsvFields: string[];
+}
+
+// The provider receives the full item schema so it can constrain generation,
+// but validation is done per item below so one bad record doesn't sink the batch.
+export const getResponseJsonSchema = (format: RecordFormat<any>): Schema<{ results: unknown[] }> => {
+  return jsonSchema<{ results: unknown[] }>(
+    zodSchema(z.object({ results: z.array(format.schema) })).jsonSchema
+  );
+};
+
+export interface ParsedBatchResponse<Output extends BatchRecord = BatchRecord> {
+  records: Output[];
+  errors: string[];
+}
+
+export interface BatchIdReport {
+  missing: number[];
+  duplicated: number[];
+  unexpected: number[];
+}
+
+const formatIssues = (error: z.ZodError): string => {
+  return error.issues
+    .map(issue => `${issue.path.join('.') || 'item'}: ${issue.message}`)
+    .join('; ');
+};
+
+export const parseStructuredResponse = <Output extends BatchRecord>(
+  raw: string,
+  format: RecordFormat<Output>
+): ParsedBatchResponse<Output> => {
+  const records: Output[] = [];
+  const errors: string[] = [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    return { records, errors: [`Response is not valid JSON: ${error}`] };
+  }
+
+  const items = (parsed as { results?: unknown })?.results;
+  if (!Array.isArray(items)) {
+    return { records, errors: ['Response has no "results" array'] };
+  }
+
+  items.forEach((item, index) => {
+    const result = format.schema.safeParse(item);
+    if (result.success) {
+      records.push(result.data);
+    } else {
+      errors.push(`Item ${index + 1} is invalid (${formatIssues(result.error)})`);
+    }
+  });
+
+  return { records, errors };
+};
+
+// Smaller models sometimes answer with a markdown table instead of TSV:
+// "| 12 | for | ... |" becomes "12\tfor\t...", and the "|---|" divider is left empty
+const fromMarkdownTableRow = (line: string): string => {
+  const trimmed = line.trim();
+  if (line.includes('\t') || !trimmed.startsWith('|')) {
+    return line;
+  }
+  return trimmed.replace(/^\||\|$/g, '').split('|').map(cell => cell.trim()).join('\t');
+};
+
+export const parseTsvResponse = <Output extends BatchRecord>(
+  raw: string,
+  format: RecordFormat<Output>
+): ParsedBatchResponse<Output> => {
+  const records: Output[] = [];
+  const errors: string[] = [];
+  const expectedColumns = format.tsvFields.length + 1;
+
+  const lines = cleanTsvOutput(raw).split('\n').map(fromMarkdownTableRow);
+  lines.forEach((line, index) => {
+    // Blank lines, headers, table dividers and code fences carry no record
+    if (!line.trim() || line.startsWith("id\t") || /^[\t\s:-]+$/.test(line) || line.trim().startsWith("```")) {
+      return;
+    }
+
+    const parts = line.split('\t');
+    if (parts.length < expectedColumns) {
+      errors.push(`Line ${index + 1} has ${parts.length} column(s), expected ${expectedColumns}`);
+      return;
+    }
+
+    const id = parts[0].trim();
+    if (!/^\d+$/.test(id)) {
+      errors.push(`Line ${index + 1} has an invalid id "${id.substring(0, 20)}"`);
+      return;
+    }
+
+    // Stray tabs end up in the last field instead of shifting the columns
+    const values = [...parts.slice(1, expectedColumns - 1), parts.slice(expectedColumns - 1).join(' ')];
+    const item = Object.fromEntries(format.tsvFields.map((field, i) => [field, values[i].trim()]));
+    const result = format.schema.safeParse({ id: Number(id), ...item });
+    if (result.success) {
+      records.push(result.data);
+    } else {
+      errors.push(`Line ${index + 1} is invalid (${formatIssues(result.error)})`);
+    }
+  });
+
+  return { records, errors };
+};
+
+// Finds the JSON object in a structured answer that came wrapped in a code
+// fence or prose. A bare array is taken as the results. Returns null if there is
+// no parseable JSON.
+export const extractJsonResponse = (text: string): string | null => {
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (start === -1 || end <= start) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1));
+    return JSON.stringify(Array.isArray(parsed) ? { results: parsed } : parsed);
+  } catch {
+    return null;
+  }
+};
+
+export const parseBatchResponse = <Output extends BatchRecord>(
+  raw: string,
+  outputMode: OutputMode,
+  format: RecordFormat<Output>
+): ParsedBatchResponse<Output> => {
+  return outputMode === 'structured' ? parseStructuredResponse(raw, format) : parseTsvResponse(raw, format);
+};
+
+// Keeps the first record for every expected id and reports everything else.
+export const matchBatchIds = <Output extends BatchRecord>(
+  expectedIds: number[],
+  records: Output[]
+): { matched: Map<number, Output>; report: BatchIdReport } => {
+  const expected = new Set(expectedIds);
+  const matched = new Map<number, Output>();
+  const duplicated = new Set<number>();
+  const unexpected = new Set<number>();
+
+  for (const record of records) {
+    if (!expected.has(record.id)) {
+      unexpected.add(record.id);
+    } else if (matched.has(record.id)) {
+      duplicated.add(record.id);
+    } else {
+      matched.set(record.id, record);
+    }
+  }
+
+  return {
+    matched,
+    report: {
+      missing: expectedIds.filter(id => !matched.has(id)),
+      duplicated: [...duplicated],
+      unexpected: [...unexpected]
+    }
+  };
+};
+
+export const formatBatchIdReport = (report: BatchIdReport): string[] => {
+  const format = (ids: number[]) => ids.length > 10
+    ? `${ids.slice(0, 10).join(', ')} (+${ids.length - 10} more)`
+    : ids.join(', ');
+
+  const issues: string[] = [];
+  if (report.missing.length > 0) {
+    issues.push(`${report.missing.length} missing id(s): ${format(report.missing)}`);
+  }
+  if (report.duplicated.length > 0) {
+    issues.push(`${report.duplicated.length} duplicated id(s): ${format(report.duplicated)}`);
+  }
+  if (report.unexpected.length > 0) {
+    issues.push(`${report.unexpected.length} unexpected id(s): ${format(report.unexpected)}`);
+  }
+  return issues;
+};
@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+import { APICallError } from "ai";
+import { BatchRequestError, classifyError, getRetryDelay, parseRetryAfter, withRetry } from "./retry";
+
+const apiError = (statusCode: number, options: { headers?: Record<string, string>; body?: string } = {}) => new APICallError({
+  message: `status ${statusCode}`,
+  url: "https://api.example.com",
+  requestBodyValues: {},
+  statusCode,
+  responseHeaders: options.headers,
+  responseBody: options.body
+});
+
+const policy = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 1 };
+
+describe("parseRetryAfter", () => {
+  test("reads seconds, milliseconds and HTTP dates", () => {
+    expect(parseRetryAfter({ "Retry-After": "2" })).toBe(2000);
+    expect(parseRetryAfter({ "retry-after-ms": "150", "retry-after": "2" })).toBe(150);
+    const inTenSeconds = new Date(Date.now() + 10_000).toUTCString();
+    expect(parseRetryAfter({ "retry-after": inTenSeconds })).toBeGreaterThan(8000);
+  });
+
+  test("ignores missing and unreadable headers", () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter({ "retry-after": "soon" })).toBeUndefined();
+  });
+});
+
+describe("classifyError", () => {
+  test("retries rate limits and server errors, with the Retry-After hint", () => {
+    expect(classifyError(apiError(429, { headers: { "retry-after": "3" } })))
+      .toMatchObject({ kind: "retryable", category: "rate_limit", statusCode: 429, retryAfterMs: 3000 });
+    expect(classifyError(apiError(503))).toMatchObject({ kind: "retryable", category: "server_error" });
+  });
+
+  test("gives up on auth errors, content filters and invalid requests", () => {
+    expect(classifyError(apiError(401))).toMatchObject({ kind: "fatal", category: "auth" });
+    expect(classifyError(apiError(400, { body: '{"code":"content_filter"}' }))).toMatchObject({ kind: "fatal", category: "content_filter" });
+    expect(classifyError(apiError(422))).toMatchObject({ kind: "fatal", category: "invalid_request" });
+  });
+
+  test("retries network errors", () => {
+    expect(classifyError(Object.assign(new Error("read ECONNRESET"), { code: "ECONNRESET" })))
+      .toMatchObject({ kind: "retryable", category: "network" });
+    expect(classifyError(new Error("something else"))).toMatchObject({ kind: "fatal", category: "unknown" });
+  });
+});
+
+describe("getRetryDelay", () => {
+  test("doubles the ceiling per attempt, up to maxDelayMs", () => {
+    const backoff = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 3000 };
+    for (let i = 0; i < 20; i++) {
+      expect(getRetryDelay(1, backoff)).toBeWithin(500, 1001);
+      expect(getRetryDelay(2, backoff)).toBeWithin(1000, 2001);
+      expect(getRetryDelay(5, backoff)).toBeWithin(1500, 3001);
+    }
+  });
+
+  test("never waits less than the Retry-After hint", () => {
+    expect(getRetryDelay(1, policy, 5000)).toBe(5000);
+  });
+});
+
+describe("withRetry", () => {
+  test("retries retryable errors until the request succeeds", async () => {
+    let calls = 0;
+    const result = await withRetry(async () => {
+      calls++;
+      if (calls < 3) {
+        throw apiError(503);
+      }
+      return "answer";
+    }, "batch", policy);
+    expect(result).toBe("answer");
+    expect(calls).toBe(3);
+  });
+
+  test("stops at fatal errors and reports the attempts", async () => {
+    let calls = 0;
+    const error = await withRetry(async () => {
+      calls++;
+      throw apiError(401);
+    }, "batch", policy).catch((error: unknown) => error);
+    expect(calls).toBe(1);
+    expect(error).toBeInstanceOf(BatchRequestError);
+    expect((error as BatchRequestError).failure).toMatchObject({ kind: "fatal", category: "auth", attempts: 1, statusCode: 401 });
+  });
+
+  test("gives up after maxAttempts", async () => {
+    let calls = 0;
+    const error = await withRetry(async () => {
+      calls++;
+      throw apiError(429);
+    }, "batch", policy).catch((error: unknown) => error);
+    expect(calls).toBe(3);
+    expect((error as BatchRequestError).failure).toMatchObject({ kind: "retryable", category: "rate_limit", attempts: 3 });
+  });
+});
@@ -0,0 +1,200 @@
+import {
+  APICallError,
+  LoadAPIKeyError,
+  NoObjectGeneratedError,
+  UnsupportedFunctionalityError
+} from "ai";
+import { MAX_RETRIES, RETRY_DELAY_MS } from "../utils/common";
+import { getShutdownSignal, isShuttingDown, ShutdownError, sleepUnlessShuttingDown } from "./shutdown";
+import { BudgetExceededError } from "./usage";
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: MAX_RETRIES,
+  baseDelayMs: RETRY_DELAY_MS,
+  maxDelayMs: 60_000
+};
+
+export type ErrorKind = 'retryable' | 'fatal';
+
+export interface ErrorClassification {
+  kind: ErrorKind;
+  // Short machine-friendly category, e.g. "rate_limit" or "auth"
+  category: string;
+  message: string;
+  statusCode?: number;
+  retryAfterMs?: number;
+}
+
+// Final outcome of a request that never succeeded, as stored in the checkpoint
+export interface BatchFailure {
+  kind: ErrorKind;
+  category: string;
+  reason: string;
+  attempts: number;
+  statusCode?: number;
+  failedAt: string;
+}
+
+export class BatchRequestError extends Error {
+  readonly failure: BatchFailure;
+
+  constructor(failure: BatchFailure, cause: unknown) {
+    super(`${failure.category}: ${failure.reason} (after ${failure.attempts} attempt${failure.attempts === 1 ? '' : 's'})`, { cause });
+    this.name = 'BatchRequestError';
+    this.failure = failure;
+  }
+}
+
+// Raised when the provider answers but refuses to produce content
+export class ContentFilterError extends Error {
+  constructor(message = 'Response was blocked by the provider content filter') {
+    super(message);
+    this.name = 'ContentFilterError';
+  }
+}
+
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET'];
+
+// Accepts both "Retry-After: <seconds>" / "<http-date>" and OpenAI's "retry-after-ms"
+export const parseRetryAfter = (headers: Record<string, string> | undefined): number | undefined => {
+  if (!headers) {
+    return undefined;
+  }
+  const lowerCased = Object.fromEntries(Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value]));
+
+  const milliseconds = Number(lowerCased['retry-after-ms']);
+  if (lowerCased['retry-after-ms'] && Number.isFinite(milliseconds)) {
+    return Math.max(0, milliseconds);
+  }
+
+  const retryAfter = lowerCased['retry-after'];
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export const classifyError = (error: any): ErrorClassification => {
+  const message = error?.message || error?.name || String(error);
+
+  if (APICallError.isInstance(error)) {
+    const statusCode = error.statusCode;
+    const retryAfterMs = parseRetryAfter(error.responseHeaders);
+    const body = `${error.message} ${error.responseBody ?? ''}`.toLowerCase();
+
+    if (statusCode === 429) {
+      return { kind: 'retryable', category: 'rate_limit', message, statusCode, retryAfterMs };
+    }
+    if (statusCode === 408 || (statusCode !== undefined && statusCode >= 500)) {
+      return { kind: 'retryable', category: 'server_error', message, statusCode, retryAfterMs };
+    }
+    if (statusCode === 401 || statusCode === 403) {
+      return { kind: 'fatal', category: 'auth', message, statusCode };
+    }
+    if (body.includes('content_filter') || body.includes('content filter') || body.includes('safety')) {
+      return { kind: 'fatal', category: 'content_filter', message, statusCode };
+    }
+    if (statusCode !== undefined && statusCode >= 400) {
+      return { kind: 'fatal', category: 'invalid_request', message, statusCode };
+    }
+    return {
+      kind: error.isRetryable ? 'retryable' : 'fatal',
+      category: error.isRetryable ? 'server_error' : 'invalid_request',
+      message,
+      statusCode,
+      retryAfterMs
+    };
+  }
+
+  if (LoadAPIKeyError.isInstance(error)) {
+    return { kind: 'fatal', category: 'auth', message };
+  }
+  if (UnsupportedFunctionalityError.isInstance(error)) {
+    return { kind: 'fatal', category: 'invalid_request', message };
+  }
+  // Whatever an aborted request throws, the interruption is the reason
+  if (error instanceof ShutdownError || getShutdownSignal().aborted) {
+    return { kind: 'fatal', category: 'shutdown', message };
+  }
+  if (error instanceof BudgetExceededError) {
+    return { kind: 'fatal', category: 'budget', message };
+  }
+  if (error instanceof ContentFilterError) {
+    return { kind: 'fatal', category: 'content_filter', message };
+  }
+  if (NoObjectGeneratedError.isInstance(error)) {
+    return error.finishReason === 'content-filter'
+      ? { kind: 'fatal', category: 'content_filter', message }
+      : { kind: 'retryable', category: 'invalid_output', message };
+  }
+  if (error?.name === 'TimeoutError' || error?.code === 23) {
+    return { kind: 'retryable', category: 'timeout', message };
+  }
+
+  const code = error?.code ?? error?.cause?.code;
+  if (RETRYABLE_NETWORK_CODES.includes(code) || /fetch failed|socket|network/i.test(message)) {
+    return { kind: 'retryable', category: 'network', message };
+  }
+
+  return { kind: 'fatal', category: 'unknown', message };
+};
+
+// Exponential backoff with full jitter, never shorter than a Retry-After hint
+export const getRetryDelay = (attempt: number, policy: RetryPolicy, retryAfterMs?: number): number => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const jittered = Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+  return retryAfterMs !== undefined ? Math.max(retryAfterMs, jittered) : jittered;
+};
+
+let retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
+export const configureRetryPolicy = (overrides: Partial<RetryPolicy>) => {
+  retryPolicy = {
+    ...DEFAULT_RETRY_POLICY,
+    ...Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined))
+  };
+};
+
+export const getRetryPolicy = (): RetryPolicy => retryPolicy;
+
+export const withRetry = async <T>(
+  request: () => Promise<T>,
+  label: string,
+  policy: RetryPolicy = retryPolicy
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      const classification = classifyError(error);
+
+      if (classification.kind === 'retryable' && attempt < policy.maxAttempts && !isShuttingDown()) {
+        const delay = getRetryDelay(attempt, policy, classification.retryAfterMs);
+        console.log(`  ⚠️ ${label}: attempt ${attempt}/${policy.maxAttempts} failed (${classification.category}: ${classification.message}). Retrying in ${(delay / 1000).toFixed(1)}s...`);
+        // Wakes up early on an interruption, and the next attempt is not sent
+        await sleepUnlessShuttingDown(delay);
+        continue;
+      }
+
+      throw new BatchRequestError({
+        kind: classification.kind,
+        category: classification.category,
+        reason: classification.message,
+        attempts: attempt,
+        statusCode: classification.statusCode,
+        failedAt: new Date().toISOString()
+      }, error);
+    }
+  }
+};
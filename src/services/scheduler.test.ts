@@ -0,0 +1,92 @@
+import { describe, expect, test } from "bun:test";
+import { createScheduler } from "./scheduler";
+
+// A task that runs until it is settled from the test
+const deferred = () => {
+  let resolve!: (value: string) => void;
+  const promise = new Promise<string>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+};
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe("createScheduler", () => {
+  test("keeps at most maxConcurrency tasks in flight", async () => {
+    const scheduler = createScheduler("test", { maxConcurrency: 2 });
+    const tasks = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+    const results = tasks.map((task, index) => scheduler.schedule(() => {
+      started.push(index);
+      return task.promise;
+    }));
+
+    await tick();
+    expect(started).toEqual([0, 1]);
+    expect(scheduler.stats()).toMatchObject({ inFlight: 2, queued: 1 });
+
+    tasks[0].resolve("first");
+    expect(await results[0]).toBe("first");
+    await tick();
+    expect(started).toEqual([0, 1, 2]);
+
+    tasks[1].resolve("second");
+    tasks[2].resolve("third");
+    expect(await Promise.all(results)).toEqual(["first", "second", "third"]);
+    // Slots are freed right after the results are handed out
+    await tick();
+    expect(scheduler.stats()).toEqual({ inFlight: 0, queued: 0, completed: 3, failed: 0, total: 3 });
+  });
+
+  test("holds tasks back once the tokens of the last minute would exceed tokensPerMinute", async () => {
+    const scheduler = createScheduler("test", { maxConcurrency: 4, tokensPerMinute: 100 });
+    expect(await scheduler.schedule(async () => "first", { tokens: 60 })).toBe("first");
+
+    const second = scheduler.schedule(async () => "second", { tokens: 60 });
+    await tick();
+    expect(scheduler.stats()).toMatchObject({ inFlight: 0, queued: 1, completed: 1 });
+
+    scheduler.cancelQueued(new Error("stopped"));
+    await expect(second).rejects.toThrow("stopped");
+  });
+
+  test("holds tasks back once requestsPerMinute were sent", async () => {
+    const scheduler = createScheduler("test", { maxConcurrency: 4, requestsPerMinute: 1 });
+    await scheduler.schedule(async () => "first");
+    const second = scheduler.schedule(async () => "second");
+    await tick();
+    expect(scheduler.stats().queued).toBe(1);
+
+    scheduler.cancelQueued(new Error("stopped"));
+    await expect(second).rejects.toThrow("stopped");
+  });
+
+  test("cancelQueued rejects queued tasks and leaves those in flight alone", async () => {
+    const scheduler = createScheduler("test", { maxConcurrency: 1 });
+    const running = deferred();
+    const first = scheduler.schedule(() => running.promise);
+    const second = scheduler.schedule(async () => "second");
+    await tick();
+
+    scheduler.cancelQueued(new Error("shutting down"));
+    await expect(second).rejects.toThrow("shutting down");
+    running.resolve("first");
+    expect(await first).toBe("first");
+    await tick();
+    expect(scheduler.stats()).toEqual({ inFlight: 0, queued: 0, completed: 1, failed: 1, total: 2 });
+  });
+
+  test("frees the slot of a task that throws before returning a promise", async () => {
+    const scheduler = createScheduler("test", { maxConcurrency: 1 });
+    const failing = scheduler.schedule((): Promise<string> => {
+      throw new Error("thrown synchronously");
+    });
+    const next = scheduler.schedule(async () => "next");
+
+    await expect(failing).rejects.toThrow("thrown synchronously");
+    expect(await next).toBe("next");
+    await tick();
+    expect(scheduler.stats()).toMatchObject({ inFlight: 0, completed: 1, failed: 1 });
+  });
+});
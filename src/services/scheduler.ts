@@ -0,0 +1,179 @@
+export interface RateLimits {
+  maxConcurrency: number;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+export interface ScheduleOptions {
+  // Estimated tokens the request will consume, counted against tokensPerMinute
+  tokens?: number;
+  label?: string;
+}
+
+export interface SchedulerStats {
+  inFlight: number;
+  queued: number;
+  completed: number;
+  failed: number;
+  total: number;
+}
+
+export interface Scheduler {
+  schedule: <T>(task: () => Promise<T>, options?: ScheduleOptions) => Promise<T>;
+  stats: () => SchedulerStats;
+  // Rejects every task still waiting for a slot; tasks in flight are left alone
+  cancelQueued: (reason: Error) => void;
+}
+
+// Conservative defaults that stay below the lowest paid tiers; override with
+// --concurrency, --rpm and --tpm.
+export const DEFAULT_RATE_LIMITS: Record<string, RateLimits> = {
+  openai: { maxConcurrency: 4, requestsPerMinute: 50, tokensPerMinute: 400_000 },
+  google: { maxConcurrency: 4, requestsPerMinute: 60, tokensPerMinute: 1_000_000 },
+  mock: { maxConcurrency: 4 },
+  // A local server usually runs one generation at a time
+  local: { maxConcurrency: 1 },
+  default: { maxConcurrency: 2, requestsPerMinute: 30 }
+};
+
+const WINDOW_MS = 60_000;
+
+interface QueuedTask {
+  run: () => void;
+  cancel: (reason: Error) => void;
+  tokens: number;
+}
+
+export const createScheduler = (name: string, limits: RateLimits): Scheduler => {
+  const queue: QueuedTask[] = [];
+  // Dispatch times and token estimates within the last minute
+  const window: Array<{ time: number; tokens: number }> = [];
+  let inFlight = 0;
+  let completed = 0;
+  let failed = 0;
+  let total = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const stats = (): SchedulerStats => ({ inFlight, queued: queue.length, completed, failed, total });
+
+  const logProgress = () => {
+    console.log(`  📊 [${name}] ${completed + failed}/${total} done, ${inFlight} in flight, ${queue.length} queued`);
+  };
+
+  // Returns how long to wait before the next task may start, or 0 if it can start now
+  const getDelay = (next: QueuedTask, now: number): number => {
+    while (window.length > 0 && now - window[0].time >= WINDOW_MS) {
+      window.shift();
+    }
+    if (window.length === 0) {
+      return 0;
+    }
+
+    const untilOldestExpires = window[0].time + WINDOW_MS - now;
+    if (limits.requestsPerMinute && window.length >= limits.requestsPerMinute) {
+      return untilOldestExpires;
+    }
+    if (limits.tokensPerMinute) {
+      const usedTokens = window.reduce((sum, entry) => sum + entry.tokens, 0);
+      if (usedTokens + next.tokens > limits.tokensPerMinute) {
+        return untilOldestExpires;
+      }
+    }
+    return 0;
+  };
+
+  const pump = () => {
+    while (queue.length > 0 && inFlight < limits.maxConcurrency) {
+      const now = Date.now();
+      const delay = getDelay(queue[0], now);
+      if (delay > 0) {
+        if (!timer) {
+          timer = setTimeout(() => {
+            timer = null;
+            pump();
+          }, delay);
+        }
+        return;
+      }
+
+      const next = queue.shift()!;
+      window.push({ time: now, tokens: next.tokens });
+      inFlight++;
+      next.run();
+    }
+  };
+
+  const schedule = <T>(task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> => {
+    total++;
+    return new Promise<T>((resolve, reject) => {
+      queue.push({
+        tokens: options.tokens ?? 0,
+        run: () => {
+          if (options.label) {
+            console.log(`  🚀 [${name}] Sending ${options.label}`);
+          }
+          // A task that throws before returning its promise must still free its slot
+          Promise.resolve()
+            .then(task)
+            .then(result => {
+              completed++;
+              resolve(result);
+            })
+            .catch(error => {
+              failed++;
+              reject(error);
+            })
+            .finally(() => {
+              inFlight--;
+              logProgress();
+              pump();
+            });
+        },
+        cancel: reason => {
+          failed++;
+          reject(reason);
+        }
+      });
+      pump();
+    });
+  };
+
+  const cancelQueued = (reason: Error) => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    queue.splice(0).forEach(task => task.cancel(reason));
+  };
+
+  return { schedule, stats, cancelQueued };
+};
+
+const schedulers = new Map<string, Scheduler>();
+let rateLimitOverrides: Partial<RateLimits> = {};
+
+// Applies CLI overrides to every provider. Must run before the first request.
+export const configureRateLimits = (overrides: Partial<RateLimits>) => {
+  rateLimitOverrides = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  );
+  schedulers.clear();
+};
+
+export const getRateLimits = (provider: string): RateLimits => {
+  return { ...(DEFAULT_RATE_LIMITS[provider] ?? DEFAULT_RATE_LIMITS.default), ...rateLimitOverrides };
+};
+
+export const cancelQueuedRequests = (reason: Error) => {
+  schedulers.forEach(scheduler => scheduler.cancelQueued(reason));
+};
+
+// One scheduler per provider, shared by every command running in this process
+export const getScheduler = (provider: string): Scheduler => {
+  let scheduler = schedulers.get(provider);
+  if (!scheduler) {
+    scheduler = createScheduler(provider, getRateLimits(provider));
+    schedulers.set(provider, scheduler);
+  }
+  return scheduler;
+};
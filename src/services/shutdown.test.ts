@@ -0,0 +1,83 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import ExcelJS from "exceljs";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { formatResumeCommand, sleepUnlessShuttingDown } from "./shutdown";
+
+const repoDir = path.resolve(import.meta.dir, "../..");
+let tempDir: string;
+
+beforeAll(async () => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "shutdown-"));
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet();
+  worksheet.addRow(["text", "id", "label"]);
+  [2, 3, 4].forEach(id => worksheet.addRow([`texto ${id} sobre lula`, id, id % 2 ? "for" : "against"]));
+  fs.mkdirSync(path.join(tempDir, "input"));
+  await workbook.xlsx.writeFile(path.join(tempDir, "input", "lula_test.xlsx"));
+});
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe("formatResumeCommand", () => {
+  test("quotes the arguments a shell would split or expand", () => {
+    expect(formatResumeCommand("bun run process --", ["-m", "gpt-5", "--input-dir", "my data", "--run", "it's"]))
+      .toBe(`bun run process -- -m gpt-5 --input-dir 'my data' --run 'it'\\''s'`);
+  });
+});
+
+describe("sleepUnlessShuttingDown", () => {
+  test("waits out the delay while the run goes on", async () => {
+    const startedAt = Date.now();
+    await sleepUnlessShuttingDown(20);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(15);
+  });
+});
+
+// The signal handlers are process-wide, so the interrupted run is a process of its own
+describe("Ctrl+C", () => {
+  test("lets the request in flight finish and be saved, then exits with 130 and the resume command", async () => {
+    const child = Bun.spawn({
+      cmd: [process.execPath, path.join(repoDir, "src/process.ts"), "-m", "mock", "-t", "lula", "--splits", "test", "--input-dir", "input"],
+      cwd: tempDir,
+      env: {
+        ...process.env,
+        MOCK_MODEL_SCRIPT: '{"delayMs": 1000}',
+        MODELS_CONFIG: path.join(repoDir, "config/models.json"),
+        TARGETS_CONFIG: path.join(repoDir, "config/targets.json"),
+        PROMPTS_DIR: path.join(repoDir, "config/prompts")
+      },
+      stdout: "pipe",
+      stderr: "pipe"
+    });
+    try {
+      const reader = child.stdout.getReader();
+      const decoder = new TextDecoder();
+      let stdout = "";
+      while (!stdout.includes("⏳ Processing")) {
+        const { value, done } = await reader.read();
+        if (done) {
+          break;
+        }
+        stdout += decoder.decode(value);
+      }
+      child.kill("SIGINT");
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        stdout += decoder.decode(chunk.value);
+      }
+
+      expect(await child.exited).toBe(130);
+      expect(stdout).toContain("Batch 1/1 completed and saved");
+      expect(stdout).toContain("Resume with:\n   bun run process -- -m mock -t lula --splits test --input-dir input");
+      // The run stopped before the next task
+      expect(stdout).not.toContain("Generating LLM classifications");
+      const checkpoints = fs.readdirSync(path.join(tempDir, "dataset", "checkpoints"));
+      expect(checkpoints).toEqual(["checkpoint-mock-lula-explain-test-pt~v3.json"]);
+    } finally {
+      child.kill();
+    }
+  }, 30_000);
+});
@@ -0,0 +1,82 @@
+import { cancelQueuedRequests } from "./scheduler";
+
+// On the first Ctrl+C (or SIGTERM) no new request is sent, requests in flight
+// get a grace period to finish and be saved, and the run winds down normally;
+// a second signal exits at once
+export const DEFAULT_SHUTDOWN_TIMEOUT_MS = 30_000;
+
+// Raised for requests that were not sent because the run is shutting down
+export class ShutdownError extends Error {
+  constructor(message = 'Run interrupted, request not sent') {
+    super(message);
+    this.name = 'ShutdownError';
+  }
+}
+
+let installed = false;
+let shuttingDown = false;
+let timeoutMs = DEFAULT_SHUTDOWN_TIMEOUT_MS;
+// Aborts the requests still in flight once the grace period is over
+const controller = new AbortController();
+const listeners = new Set<() => void>();
+
+export const isShuttingDown = (): boolean => shuttingDown;
+
+export const getShutdownSignal = (): AbortSignal => controller.signal;
+
+export const assertNotShuttingDown = () => {
+  if (shuttingDown) {
+    throw new ShutdownError();
+  }
+};
+
+// Resolves after the delay, or as soon as the run starts shutting down
+export const sleepUnlessShuttingDown = (ms: number) => new Promise<void>(resolve => {
+  if (shuttingDown) {
+    resolve();
+    return;
+  }
+  const done = () => {
+    clearTimeout(timer);
+    listeners.delete(done);
+    resolve();
+  };
+  const timer = setTimeout(done, ms);
+  listeners.add(done);
+});
+
+const handleSignal = (signal: NodeJS.Signals) => {
+  if (shuttingDown) {
+    console.error(`\n🛑 ${signal} again, exiting without waiting for requests in flight`);
+    process.exit(130);
+  }
+  shuttingDown = true;
+  console.warn(`\n🛑 ${signal} received: no new batches are sent, waiting up to ${timeoutMs / 1000}s for those in flight (press Ctrl+C again to exit now)`);
+  cancelQueuedRequests(new ShutdownError());
+  listeners.forEach(listener => listener());
+
+  const timer = setTimeout(() => {
+    console.warn(`⏱️ Requests still in flight after ${timeoutMs / 1000}s, aborting them`);
+    controller.abort(new ShutdownError('Run interrupted, request aborted'));
+  }, timeoutMs);
+  // Never keeps the process alive once the run has wound down
+  timer.unref();
+};
+
+// Safe to call once per run of the same process; the latest timeout applies
+export const installShutdownHandlers = (options: { timeoutMs?: number } = {}) => {
+  timeoutMs = options.timeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS;
+  if (installed) {
+    return;
+  }
+  installed = true;
+  process.on('SIGINT', handleSignal);
+  process.on('SIGTERM', handleSignal);
+};
+
+// Quotes arguments for a POSIX shell when they need it
+const quoteArg = (arg: string): string => /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replaceAll("'", `'\\''`)}'`;
+
+export const formatResumeCommand = (command: string, args: string[]): string => {
+  return [command, ...args.map(quoteArg)].join(' ');
+};
@@ -0,0 +1,57 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { loadPromptTemplate } from "../prompts/templates";
+import { createClassifyTask } from "../tasks/classify";
+import { getLabelSet } from "../utils/label-sets";
+import { createMockModel, loadMockScript } from "../utils/mock-model";
+import { generateBatchResponse } from "./batch-processor";
+import { BatchRequestError, configureRetryPolicy } from "./retry";
+import { configureRateLimits, getScheduler } from "./scheduler";
+import { getTotalCost, isBudgetExhausted, recordUsage, setCostBudget } from "./usage";
+
+const task = createClassifyTask(getLabelSet("stance"), 1, loadPromptTemplate("v2", "classify"));
+
+beforeAll(() => {
+  configureRetryPolicy({ maxAttempts: 2, baseDelayMs: 1, maxDelayMs: 1 });
+  // Every request but the first waits in the queue
+  configureRateLimits({ maxConcurrency: 1 });
+});
+
+afterAll(() => {
+  setCostBudget(undefined);
+  configureRateLimits({});
+  configureRetryPolicy({});
+});
+
+describe("recordUsage", () => {
+  test("prices tokens by model and counts unpriced models as free", () => {
+    const context = { modelType: "gpt-5", target: "lula", split: "test" as const, step: "classify" };
+    expect(recordUsage(context, { inputTokens: 1_000_000, outputTokens: 100_000 })).toBeCloseTo(2.25);
+    expect(recordUsage({ ...context, modelType: "mock" }, { inputTokens: 1_000_000, outputTokens: 0 })).toBe(0);
+  });
+});
+
+describe("cost budget", () => {
+  test("rejects the queued batches once the budget is spent, without stalling the queue", async () => {
+    // The mock answers, priced as gpt-5: one answer spends the rest of the budget
+    setCostBudget(getTotalCost() + 0.000001);
+    const model = createMockModel(loadMockScript("{}"));
+    const requests = [2, 3, 4, 5].map(id => generateBatchResponse({
+      model,
+      prompt: `${id}\ttexto ${id}\n\nExample Output Format:\nid\tlabel\tconfidence\texplanation`,
+      outputMode: "tsv",
+      format: task,
+      label: `batch ${id}`,
+      usageContext: { modelType: "gpt-5", target: "lula", split: "test", step: "classify" }
+    }));
+
+    const results = await Promise.allSettled(requests);
+    expect(results.map(result => result.status)).toEqual(["fulfilled", "rejected", "rejected", "rejected"]);
+    for (const result of results.slice(1)) {
+      const reason = (result as PromiseRejectedResult).reason;
+      expect(reason).toBeInstanceOf(BatchRequestError);
+      expect((reason as BatchRequestError).failure.category).toBe("budget");
+    }
+    expect(isBudgetExhausted()).toBe(true);
+    expect(getScheduler("mock").stats()).toMatchObject({ inFlight: 0, queued: 0 });
+  });
+});
@@ -0,0 +1,130 @@
+import { formatModelVariant } from "../utils/models";
+import { estimateCost, formatCost, MODEL_PRICES } from "../utils/pricing";
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Identifies what a request was spent on in the run summary
+export interface UsageContext {
+  modelType: string;
+  target: string;
+  split: 'train' | 'test';
+  // Annotation task the tokens were spent on
+  step: string;
+  // Prompt variant, in experiments with several
+  variant?: string;
+}
+
+interface UsageEntry extends UsageContext, TokenUsage {
+  requests: number;
+  cost: number;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(maxCost: number) {
+    super(`Cost budget of ${formatCost(maxCost)} reached, no new batches will be sent`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const entries = new Map<string, UsageEntry>();
+let maxCost: number | undefined;
+let budgetWarningShown = false;
+
+export const setCostBudget = (budget: number | undefined) => {
+  maxCost = budget;
+};
+
+export const getTotalCost = (): number => {
+  return [...entries.values()].reduce((sum, entry) => sum + entry.cost, 0);
+};
+
+export const isBudgetExhausted = (): boolean => {
+  return maxCost !== undefined && getTotalCost() >= maxCost;
+};
+
+// Called right before a request is sent, so queued batches stop once the budget
+// is spent. Rejects rather than throws, so the caller's promise chain settles.
+export const assertWithinBudget = async () => {
+  if (maxCost !== undefined && isBudgetExhausted()) {
+    if (!budgetWarningShown) {
+      budgetWarningShown = true;
+      console.error(`💸 Cost budget of ${formatCost(maxCost)} reached (spent ${formatCost(getTotalCost())}). No new batches will be sent.`);
+    }
+    throw new BudgetExceededError(maxCost);
+  }
+};
+
+// Answers of a provider batch job are billed at batch prices
+export const recordUsage = (context: UsageContext, usage: TokenUsage, { batch = false } = {}): number => {
+  const cost = estimateCost(context.modelType, usage, batch);
+  const key = [context.modelType, context.variant ?? '', context.target, context.split, context.step].join('|');
+  const entry = entries.get(key) ?? { ...context, inputTokens: 0, outputTokens: 0, requests: 0, cost: 0 };
+
+  entry.inputTokens += usage.inputTokens;
+  entry.outputTokens += usage.outputTokens;
+  entry.requests++;
+  entry.cost += cost;
+  entries.set(key, entry);
+
+  return cost;
+};
+
+export const printUsageSummary = () => {
+  if (entries.size === 0) {
+    console.log(`\n💰 No model requests were made in this run`);
+    return;
+  }
+
+  console.log(`\n💰 TOKEN USAGE AND ESTIMATED COST (this run)`);
+  console.log("=".repeat(100));
+  console.log(
+    "Model".padEnd(20) + "Target".padEnd(14) + "Split".padEnd(8) + "Step".padEnd(12) +
+    "Requests".padEnd(10) + "Input".padEnd(14) + "Output".padEnd(14) + "Cost"
+  );
+  console.log("-".repeat(100));
+
+  const sorted = [...entries.values()].sort((a, b) =>
+    [a.modelType, a.variant ?? '', a.target, a.split, a.step].join('|').localeCompare([b.modelType, b.variant ?? '', b.target, b.split, b.step].join('|'))
+  );
+  for (const entry of sorted) {
+    console.log(
+      formatModelVariant(entry.modelType, entry.variant).padEnd(20) +
+      entry.target.padEnd(14) +
+      entry.split.padEnd(8) +
+      entry.step.padEnd(12) +
+      String(entry.requests).padEnd(10) +
+      entry.inputTokens.toLocaleString().padEnd(14) +
+      entry.outputTokens.toLocaleString().padEnd(14) +
+      formatCost(entry.cost)
+    );
+  }
+
+  const totals = sorted.reduce(
+    (sum, entry) => ({
+      requests: sum.requests + entry.requests,
+      inputTokens: sum.inputTokens + entry.inputTokens,
+      outputTokens: sum.outputTokens + entry.outputTokens
+    }),
+    { requests: 0, inputTokens: 0, outputTokens: 0 }
+  );
+  console.log("-".repeat(100));
+  console.log(
+    "TOTAL".padEnd(54) +
+    String(totals.requests).padEnd(10) +
+    totals.inputTokens.toLocaleString().padEnd(14) +
+    totals.outputTokens.toLocaleString().padEnd(14) +
+    formatCost(getTotalCost())
+  );
+
+  const unpriced = [...new Set(sorted.map(entry => entry.modelType))].filter(model => !MODEL_PRICES[model]);
+  if (unpriced.length > 0) {
+    console.log(`⚠️ No price known for ${unpriced.join(', ')}; their cost is counted as $0`);
+  }
+  if (maxCost !== undefined) {
+    console.log(`Budget: ${formatCost(maxCost)}${isBudgetExhausted() ? ' (reached)' : ''}`);
+  }
+  console.log("=".repeat(100));
+};
@@ -0,0 +1,53 @@
+import { describe, expect, test } from "bun:test";
+import { loadPromptTemplate } from "../prompts/templates";
+import { getLabelSet } from "../utils/label-sets";
+import { createClassifyTask } from "./classify";
+
+const labelSet = getLabelSet("stance");
+const template = loadPromptTemplate("v2", "classify");
+
+describe("self-consistency samples", () => {
+  const task = createClassifyTask(labelSet, 3, template);
+
+  test("keep the majority label, explained by the first sample that chose it", () => {
+    expect(task.combineSamples!([
+      { id: 2, label: "against", confidence: 0.6, explanation: "Critica." },
+      { id: 2, label: "for", confidence: 0.9, explanation: "Apoia." },
+      { id: 2, label: "for", confidence: 0.7, explanation: "Elogia." }
+    ])).toEqual({ id: 2, label: "for", confidence: 0.8, explanation: "Apoia.", evidence: undefined, agreement: 0.67 });
+  });
+
+  test("break ties in favor of the label seen first", () => {
+    expect(task.combineSamples!([
+      { id: 2, label: "against", confidence: 0.6, explanation: "Critica." },
+      { id: 2, label: "for", confidence: 0.9, explanation: "Apoia." }
+    ])).toMatchObject({ label: "against", agreement: 0.5 });
+  });
+
+  test("add the agreement column only when sampling", () => {
+    const headers = (samples: number) => createClassifyTask(labelSet, samples, template).columns.map(column => column.header);
+    expect(headers(3)).toContain("llm_label_agreement");
+    expect(headers(1)).not.toContain("llm_label_agreement");
+  });
+});
+
+describe("confidence", () => {
+  const task = createClassifyTask(labelSet, 1, template);
+  const parse = (confidence: unknown) => task.schema.safeParse({ id: 2, label: "for", confidence, explanation: "Apoia." });
+
+  test("accepts numbers, decimal commas and percentages", () => {
+    expect(parse(0.75)).toMatchObject({ success: true, data: { confidence: 0.75 } });
+    expect(parse("0,8")).toMatchObject({ success: true, data: { confidence: 0.8 } });
+    expect(parse("90%")).toMatchObject({ success: true, data: { confidence: 0.9 } });
+  });
+
+  test("rejects values outside 0 to 1 and missing ones", () => {
+    expect(parse(1.5).success).toBe(false);
+    expect(parse("high").success).toBe(false);
+    expect(parse("").success).toBe(false);
+  });
+
+  test("goes to an optional column, since older files don't have it", () => {
+    expect(task.columns.find(column => column.field === "confidence")).toMatchObject({ header: "llm_label_confidence", optional: true });
+  });
+});
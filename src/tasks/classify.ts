@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { getClassificationPrompt } from "../prompts/classification";
+import { DEFAULT_PROMPT_VERSION, loadPromptTemplate, requestsEvidence, type PromptTemplate } from "../prompts/templates";
+import type { SourceRow } from "../services/excel";
+import type { LabelSet } from "../utils/label-sets";
+import { TASK_COLUMNS } from "./columns";
+import { evidenceSchema, verifyEvidence, type EvidenceSpan } from "./evidence";
+import { createLabelSchema } from "./labels";
+import type { AnnotationTask } from "./types";
+
+// TSV answers arrive as text, sometimes as "0,8" or "80%"
+const normalizeConfidence = (value: unknown): unknown => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return value;
+  }
+  const text = value.trim().replace(',', '.');
+  return text.endsWith('%') ? Number(text.slice(0, -1)) / 100 : Number(text);
+};
+
+const createClassificationRecordSchema = (labelSet: LabelSet) => z.object({
+  id: z.number().int(),
+  label: createLabelSchema(labelSet),
+  confidence: z.preprocess(normalizeConfidence, z.number().min(0).max(1)),
+  explanation: z.string().trim().min(1)
+});
+
+export type ClassificationRecord = Omit<z.infer<ReturnType<typeof createClassificationRecordSchema>>, 'confidence'> & {
+  // Missing in records from checkpoints written before confidences were requested
+  confidence?: number;
+  // Share of samples that chose the label, only set when sampling
+  agreement?: number;
+  // Quotes behind the explanation, when the prompt asks for them
+  evidence?: EvidenceSpan[];
+};
+
+// Majority label across samples (ties go to the label seen first), explained by
+// the first sample that chose it, with the mean confidence of those samples
+const combineBySampleVote = (samples: ClassificationRecord[]): ClassificationRecord => {
+  const votes = new Map<string, number>();
+  samples.forEach(sample => votes.set(sample.label, (votes.get(sample.label) ?? 0) + 1));
+
+  const [label, count] = [...votes.entries()].reduce((best, entry) => entry[1] > best[1] ? entry : best);
+  const majority = samples.filter(sample => sample.label === label);
+  const chosen = majority[0];
+  const confidences = majority.map(sample => sample.confidence).filter(value => value !== undefined);
+
+  return {
+    id: chosen.id,
+    label,
+    confidence: confidences.length > 0
+      ? Math.round(confidences.reduce((sum, value) => sum + value, 0) / confidences.length * 100) / 100
+      : undefined,
+    explanation: chosen.explanation,
+    evidence: chosen.evidence,
+    agreement: Math.round((count / samples.length) * 100) / 100
+  };
+};
+
+// Lets the model label each row and explain its own label. Templates that ask
+// for evidence spans get them checked against the tweet and written to a
+// column of their own.
+export const createClassifyTask = (
+  labelSet: LabelSet,
+  samples: number = 1,
+  promptTemplate: PromptTemplate = loadPromptTemplate(DEFAULT_PROMPT_VERSION, 'classify')
+): AnnotationTask<SourceRow, ClassificationRecord> => {
+  const withEvidence = requestsEvidence(promptTemplate);
+  const schema = createClassificationRecordSchema(labelSet);
+
+  return {
+    name: 'classify',
+    description: 'LLM classifications',
+    labelSet,
+    promptTemplate,
+    readInput: row => {
+      const text = row.getCell(1).value?.toString() || "";
+      return text ? { text } : null;
+    },
+    checkRecord: (input, record) => record.evidence ? { ...record, evidence: verifyEvidence(input.text, record.evidence) } : record,
+    buildPrompt: params => getClassificationPrompt({ ...params, labelSet, template: promptTemplate }),
+    schema: withEvidence ? schema.extend({ evidence: evidenceSchema }) : schema,
+    // Evidence goes before the explanation, which takes any stray tabs
+    tsvFields: withEvidence ? ['label', 'confidence', 'evidence', 'explanation'] : ['label', 'confidence', 'explanation'],
+    columns: [
+      { field: 'label', header: 'llm_label', column: TASK_COLUMNS.llm_label },
+      { field: 'explanation', header: 'llm_label_explanation', column: TASK_COLUMNS.llm_label_explanation },
+      ...(samples > 1 ? [{ field: 'agreement' as const, header: 'llm_label_agreement', column: TASK_COLUMNS.llm_label_agreement }] : []),
+      // Files processed before confidences were requested don't have it
+      { field: 'confidence', header: 'llm_label_confidence', column: TASK_COLUMNS.llm_label_confidence, optional: true },
+      // Nor do files processed with templates that don't ask for evidence
+      ...(withEvidence
+        ? [{ field: 'evidence' as const, header: 'llm_label_evidence', column: TASK_COLUMNS.llm_label_evidence, optional: true }]
+        : [])
+    ],
+    samples,
+    combineSamples: combineBySampleVote
+  };
+};
@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test";
+import { LANGUAGES } from "../utils/languages";
+import { getExtraLanguageColumn, getExtraLanguageEvidenceColumn, TASK_COLUMNS } from "./columns";
+import { getAnnotationTasks } from "./index";
+
+describe("getExtraLanguageColumn", () => {
+  test("keeps the columns of files processed so far", () => {
+    expect(Object.values(LANGUAGES).map(getExtraLanguageColumn)).toEqual([12, 13, 14, 15, 16, 17]);
+  });
+
+  test("never gives a language the column of another task", () => {
+    const taken = new Set<number>(Object.values(TASK_COLUMNS));
+    for (const language of Object.values(LANGUAGES)) {
+      expect(taken.has(getExtraLanguageColumn(language))).toBe(false);
+    }
+  });
+});
+
+describe("getExtraLanguageEvidenceColumn", () => {
+  test("places the evidence of each language after the task columns", () => {
+    expect(Object.values(LANGUAGES).map(getExtraLanguageEvidenceColumn)).toEqual([20, 21, 22, 23, 24, 25]);
+  });
+});
+
+describe("getAnnotationTasks", () => {
+  test("gives every column of every task a position of its own", () => {
+    const tasks = getAnnotationTasks(undefined, { samples: 3, extraLanguages: Object.values(LANGUAGES) });
+    const columns = tasks.flatMap(task => task.columns.map(column => column.column));
+    expect(new Set(columns).size).toBe(columns.length);
+  });
+});
@@ -0,0 +1,42 @@
+import { LANGUAGES, type Language } from "../utils/languages";
+
+// Where tasks write their columns in new files, after the source's own (text in
+// 1, human label in 3). Files are read by header, so files with another layout
+// keep working (see getHeaderColumns).
+export const TASK_COLUMNS = {
+  human_label_explanation: 7,
+  llm_label: 8,
+  llm_label_explanation: 9,
+  llm_label_agreement: 10,
+  llm_label_confidence: 11,
+  llm_label_evidence: 18,
+  human_label_evidence: 19
+} as const;
+
+const EXTRA_LANGUAGE_FIRST_COLUMN = 12;
+const EXTRA_LANGUAGE_EVIDENCE_FIRST_COLUMN = 20;
+
+const getLanguageIndex = (language: Language): number =>
+  Object.values(LANGUAGES).findIndex(known => known.code === language.code);
+
+// The index-th column from first on that no other column takes
+const getFreeColumn = (first: number, index: number, taken: Set<number>): number => {
+  const free: number[] = [];
+  for (let column = first; free.length <= index; column++) {
+    if (!taken.has(column)) {
+      free.push(column);
+    }
+  }
+  return free[index];
+};
+
+// Extra languages take the free columns from 12 on, in the order of LANGUAGES
+export const getExtraLanguageColumn = (language: Language): number => {
+  return getFreeColumn(EXTRA_LANGUAGE_FIRST_COLUMN, getLanguageIndex(language), new Set(Object.values(TASK_COLUMNS)));
+};
+
+// Their evidence spans take the free columns from 20 on, in the same order
+export const getExtraLanguageEvidenceColumn = (language: Language): number => {
+  const taken = new Set<number>([...Object.values(TASK_COLUMNS), ...Object.values(LANGUAGES).map(getExtraLanguageColumn)]);
+  return getFreeColumn(EXTRA_LANGUAGE_EVIDENCE_FIRST_COLUMN, getLanguageIndex(language), taken);
+};
@@ -0,0 +1,40 @@
+import { describe, expect, test } from "bun:test";
+import { parseEvidenceCell, verifyEvidence } from "./evidence";
+
+describe("verifyEvidence", () => {
+  const text = "eu  odeio\neste governo";
+
+  test("keeps quotes found at the given offsets", () => {
+    expect(verifyEvidence(text, [{ quote: "governo", start: 15, end: 22 }]))
+      .toEqual([{ quote: "governo", start: 15, end: 22, status: "verified" }]);
+  });
+
+  test("corrects the offsets of quotes found elsewhere", () => {
+    expect(verifyEvidence(text, [{ quote: "governo", start: 0, end: 7 }]))
+      .toEqual([{ quote: "governo", start: 15, end: 22, status: "relocated" }]);
+  });
+
+  test("maps offsets into the collapsed TSV text back to the original", () => {
+    // "eu odeio este governo" as a TSV prompt shows it
+    expect(verifyEvidence(text, [{ quote: "odeio este", start: 3, end: 13 }]))
+      .toEqual([{ quote: "odeio\neste", start: 4, end: 14, status: "verified" }]);
+  });
+
+  test("marks quotes the text doesn't contain", () => {
+    expect(verifyEvidence(text, [{ quote: "amo", start: 0, end: 3 }]))
+      .toEqual([{ quote: "amo", start: 0, end: 3, status: "hallucinated" }]);
+  });
+});
+
+describe("parseEvidenceCell", () => {
+  test("reads the JSON written to a cell", () => {
+    expect(parseEvidenceCell('[{"quote":"odeio","start":4,"end":9,"status":"verified"}]'))
+      .toEqual([{ quote: "odeio", start: 4, end: 9, status: "verified" }]);
+  });
+
+  test("returns no spans for empty or invalid cells", () => {
+    expect(parseEvidenceCell(null)).toEqual([]);
+    expect(parseEvidenceCell("")).toEqual([]);
+    expect(parseEvidenceCell("not json")).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+import { z } from "zod";
+import { toTsvField } from "../prompts/format";
+
+// Whether a quote was found in the tweet: at the offsets the model gave, only
+// elsewhere (the offsets are corrected), or not at all
+export type EvidenceStatus = 'verified' | 'relocated' | 'hallucinated';
+
+const evidenceSpanSchema = z.object({
+  quote: z.string().min(1),
+  // Character offsets into the tweet, end excluded
+  start: z.number().int().min(0),
+  end: z.number().int().min(0)
+});
+
+export type EvidenceSpan = z.infer<typeof evidenceSpanSchema> & {
+  // Set once the span has been checked against the tweet
+  status?: EvidenceStatus;
+};
+
+// TSV answers carry the spans as a JSON array in one field
+const parseJsonField = (value: unknown): unknown => {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  if (value.trim() === '') {
+    return [];
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+export const evidenceSchema = z.preprocess(parseJsonField, z.array(evidenceSpanSchema));
+
+// The tweet as TSV prompts show it (see toTsvField), with the position in the
+// original text of each of its characters
+const collapseWhitespace = (text: string): { collapsed: string; positions: number[] } => {
+  let collapsed = '';
+  const positions: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const isSpace = /\s/.test(text[i]);
+    if (isSpace && i > 0 && /\s/.test(text[i - 1])) {
+      continue;
+    }
+    collapsed += isSpace ? ' ' : text[i];
+    positions.push(i);
+  }
+  const start = collapsed.length - collapsed.trimStart().length;
+  const end = collapsed.trimEnd().length;
+  return { collapsed: collapsed.slice(start, end), positions: positions.slice(start, end) };
+};
+
+// Quotes are matched exactly, in the original text or, for quotes taken from a
+// TSV prompt, in the text with its whitespace collapsed, in which case the
+// offsets are mapped back to the original text. Offsets models count wrong are
+// corrected to the first occurrence of the quote; quotes the tweet doesn't
+// contain are kept and marked, so their rate can be reported.
+export const verifyEvidence = (text: string, spans: EvidenceSpan[]): EvidenceSpan[] => {
+  const { collapsed, positions } = collapseWhitespace(text);
+  const fromCollapsed = (start: number, end: number, status: EvidenceStatus): EvidenceSpan => {
+    const [rawStart, rawEnd] = [positions[start], positions[end - 1] + 1];
+    return { quote: text.slice(rawStart, rawEnd), start: rawStart, end: rawEnd, status };
+  };
+
+  return spans.map(({ quote, start, end }) => {
+    const collapsedQuote = toTsvField(quote);
+    if (text.slice(start, end) === quote) {
+      return { quote, start, end, status: 'verified' };
+    }
+    if (collapsedQuote && collapsed.slice(start, end) === collapsedQuote) {
+      return fromCollapsed(start, end, 'verified');
+    }
+
+    const found = text.indexOf(quote);
+    if (found !== -1) {
+      return { quote, start: found, end: found + quote.length, status: 'relocated' };
+    }
+    const collapsedFound = collapsedQuote ? collapsed.indexOf(collapsedQuote) : -1;
+    return collapsedFound === -1
+      ? { quote, start, end, status: 'hallucinated' }
+      : fromCollapsed(collapsedFound, collapsedFound + collapsedQuote.length, 'relocated');
+  });
+};
+
+// Spans as written to a workbook cell, or [] for cells that don't hold any
+export const parseEvidenceCell = (value: unknown): EvidenceSpan[] => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return [];
+  }
+  try {
+    const spans = JSON.parse(value);
+    return Array.isArray(spans) ? spans : [];
+  } catch {
+    return [];
+  }
+};
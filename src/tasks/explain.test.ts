@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+import ExcelJS from "exceljs";
+import { loadPromptTemplate } from "../prompts/templates";
+import { resolveBatchRecords } from "../services/batch-processor";
+import { getLabelSet } from "../utils/label-sets";
+import { LANGUAGES } from "../utils/languages";
+import { createExplainTask } from "./explain";
+
+const task = createExplainTask(getLabelSet("stance"), loadPromptTemplate("v2", "explain"));
+
+const toRow = (values: unknown[]): ExcelJS.Row => new ExcelJS.Workbook().addWorksheet().addRow(values);
+
+describe("createExplainTask", () => {
+  test("reads the text and human label, skipping labels outside the set", () => {
+    expect(task.readInput(toRow(["um tweet", "", " For "]))).toEqual({ text: "um tweet", label: "for" });
+    expect(task.readInput(toRow(["um tweet", "", "neutral"]))).toBeNull();
+    expect(createExplainTask(getLabelSet("stance-extended"), loadPromptTemplate("v2", "explain"))
+      .readInput(toRow(["um tweet", "", "neutral"]))).toEqual({ text: "um tweet", label: "neutral" });
+  });
+
+  test("normalizes the echoed label and rejects labels outside the set", () => {
+    expect(task.schema.safeParse({ id: 2, label: "**Against**", explanation: "Critica." }))
+      .toMatchObject({ success: true, data: { label: "against" } });
+    expect(task.schema.safeParse({ id: 2, label: "neutral", explanation: "Nada." }).success).toBe(false);
+  });
+
+  test("rejects explanations of another label than the row's", () => {
+    const rows = [{ id: 2, text: "a", label: "for" }, { id: 3, text: "b", label: "against" }];
+    const raw = JSON.stringify({
+      results: [
+        { id: 2, label: "for", explanation: "Apoia." },
+        { id: 3, label: "for", explanation: "Apoia." }
+      ]
+    });
+    const { records, issues } = resolveBatchRecords(raw, "structured", task, rows, "batch");
+    expect(records.map(record => record.id)).toEqual([2]);
+    expect(issues).toEqual(['Row 3 explains the label "for" instead of "against"']);
+  });
+
+  test("writes the evidence of explanations in an extra language to a column of that language", () => {
+    const english = createExplainTask(getLabelSet("stance"), loadPromptTemplate("v3", "explain"), LANGUAGES.english);
+    expect(english.columns.map(column => column.header)).toEqual(["human_label_explanation_en", "human_label_evidence_en"]);
+  });
+});
@@ -0,0 +1,70 @@
+import { z } from "zod";
+import { getExplanationPrompt } from "../prompts/explanation";
+import { DEFAULT_PROMPT_VERSION, loadPromptTemplate, requestsEvidence, type PromptTemplate } from "../prompts/templates";
+import type { LabeledSourceRow } from "../services/excel";
+import { getLabelNames, type LabelSet } from "../utils/label-sets";
+import type { Language } from "../utils/languages";
+import { getExtraLanguageColumn, getExtraLanguageEvidenceColumn, TASK_COLUMNS } from "./columns";
+import { evidenceSchema, verifyEvidence, type EvidenceSpan } from "./evidence";
+import { createLabelSchema } from "./labels";
+import type { AnnotationTask } from "./types";
+
+const createExplanationRecordSchema = (labelSet: LabelSet) => z.object({
+  id: z.number().int(),
+  label: createLabelSchema(labelSet),
+  explanation: z.string().trim().min(1)
+});
+
+export type ExplanationRecord = z.infer<ReturnType<typeof createExplanationRecordSchema>> & {
+  // Quotes behind the explanation, when the prompt asks for them
+  evidence?: EvidenceSpan[];
+};
+
+// Explains the human label of each row. The label is echoed back, and records
+// explaining another label than the row's are rejected. Rows labeled outside
+// the label set are skipped.
+// With a language, the explanations are written in it, whatever the language
+// of the run, to a column of their own ("explain-en", human_label_explanation_en).
+// Evidence spans, when the template asks for them, are checked against the
+// tweet and get a column of each language too (human_label_evidence_en).
+export const createExplainTask = (
+  labelSet: LabelSet,
+  promptTemplate: PromptTemplate = loadPromptTemplate(DEFAULT_PROMPT_VERSION, 'explain'),
+  language?: Language
+): AnnotationTask<LabeledSourceRow, ExplanationRecord> => {
+  const withEvidence = requestsEvidence(promptTemplate);
+  const labels = getLabelNames(labelSet);
+  const schema = createExplanationRecordSchema(labelSet);
+
+  return {
+    name: language ? `explain-${language.code}` : 'explain',
+    description: language ? `human label explanations in ${language.name}` : 'human label explanations',
+    labelSet,
+    promptTemplate,
+    language: language?.name,
+    readInput: row => {
+      const text = row.getCell(1).value?.toString() || "";
+      const label = row.getCell(3).value?.toString()?.toLowerCase().trim() || "";
+      return text && labels.includes(label) ? { text, label } : null;
+    },
+    checkRecord: (input, record) => {
+      if (record.label !== input.label) {
+        return `Row ${record.id} explains the label "${record.label}" instead of "${input.label}"`;
+      }
+      return record.evidence ? { ...record, evidence: verifyEvidence(input.text, record.evidence) } : record;
+    },
+    buildPrompt: params => getExplanationPrompt({ ...params, labelSet, template: promptTemplate }),
+    schema: withEvidence ? schema.extend({ evidence: evidenceSchema }) : schema,
+    tsvFields: withEvidence ? ['label', 'evidence', 'explanation'] : ['label', 'explanation'],
+    columns: [
+      language
+        ? { field: 'explanation', header: `human_label_explanation_${language.code}`, column: getExtraLanguageColumn(language) }
+        : { field: 'explanation', header: 'human_label_explanation', column: TASK_COLUMNS.human_label_explanation },
+      ...(withEvidence
+        ? [language
+          ? { field: 'evidence' as const, header: `human_label_evidence_${language.code}`, column: getExtraLanguageEvidenceColumn(language), optional: true }
+          : { field: 'evidence' as const, header: 'human_label_evidence', column: TASK_COLUMNS.human_label_evidence, optional: true }]
+        : [])
+    ]
+  };
+};
@@ -0,0 +1,34 @@
+import { DEFAULT_PROMPT_VERSION, loadPromptTemplate } from "../prompts/templates";
+import { DEFAULT_LABEL_SET, getLabelSet, type LabelSet } from "../utils/label-sets";
+import type { Language } from "../utils/languages";
+import { createClassifyTask } from "./classify";
+import { createExplainTask } from "./explain";
+import type { AnnotationTask, TaskColumn } from "./types";
+
+export type { AnnotationTask, TaskColumn, TaskPromptParams, TaskResult } from "./types";
+
+// Tasks run in this order on every dataset. To add a new annotation, define a
+// task with its own columns and prompt templates (config/prompts/<version>/<name>/)
+// and list it here. Each extra language adds an explain step in that language.
+export const getAnnotationTasks = (
+  labelSet: LabelSet = getLabelSet(DEFAULT_LABEL_SET),
+  options: { samples?: number; promptVersion?: string; extraLanguages?: Language[] } = {}
+): AnnotationTask<any, any>[] => {
+  const version = options.promptVersion ?? DEFAULT_PROMPT_VERSION;
+  const explainTemplate = loadPromptTemplate(version, 'explain');
+  return [
+    createExplainTask(labelSet, explainTemplate),
+    ...(options.extraLanguages ?? []).map(language => createExplainTask(labelSet, explainTemplate, language)),
+    createClassifyTask(labelSet, options.samples, loadPromptTemplate(version, 'classify'))
+  ];
+};
+
+// Column names as used in the missing data report, e.g. "llm-label-explanation"
+export const getColumnReportName = (column: TaskColumn<any>): string => {
+  return column.header.replace(/_/g, '-');
+};
+
+// --steps explain also selects the explain steps of extra languages
+export const isTaskOfStep = (task: AnnotationTask<any, any>, step: string): boolean => {
+  return task.name === step || task.name.startsWith(`${step}-`);
+};
@@ -0,0 +1,12 @@
+import { z } from "zod";
+import { getLabelNames, type LabelSet } from "../utils/label-sets";
+
+// Smaller models often wrap the label in quotes or markdown ("For", **against**)
+const normalizeLabel = (value: unknown): unknown => {
+  return typeof value === 'string' ? value.replace(/["'*`]/g, '').trim().toLowerCase() : value;
+};
+
+// Labels outside the set are rejected per record, like any other invalid field
+export const createLabelSchema = (labelSet: LabelSet) => {
+  return z.preprocess(normalizeLabel, z.enum(getLabelNames(labelSet) as [string, ...string[]]));
+};
@@ -0,0 +1,60 @@
+import type ExcelJS from "exceljs";
+import type { SourceRow } from "../services/excel";
+import type { FewShotExample } from "../services/few-shot";
+import type { BatchRecord, OutputMode, RecordFormat } from "../services/response-parser";
+import type { PromptTemplate } from "../prompts/templates";
+import type { LabelSet } from "../utils/label-sets";
+import type { LanguageModel } from "../utils/models";
+
+export interface TaskPromptParams<Input extends SourceRow> {
+  target: string;
+  language: string;
+  batch: Input[];
+  outputMode: OutputMode;
+  // Labeled examples picked for this batch, when few-shot prompting is on
+  examples?: FewShotExample[];
+}
+
+// A workbook column filled from one field of the task's records
+export interface TaskColumn<Output extends BatchRecord> {
+  field: Exclude<keyof Output, 'id'> & string;
+  header: string;
+  column: number;
+  // Not reported as missing when empty
+  optional?: boolean;
+}
+
+// Everything the pipeline needs to know about one kind of annotation. Batching,
+// checkpointing, retries, splitting and writing results are shared by all tasks.
+export interface AnnotationTask<Input extends SourceRow = SourceRow, Output extends BatchRecord = BatchRecord>
+  extends RecordFormat<Output> {
+  // Used in checkpoint names, usage summaries and logs
+  name: string;
+  description: string;
+  // Labels the task works with; checkpoints of another label set are not reused
+  labelSet: LabelSet;
+  // Wording of the prompts; checkpoints of another template are not reused
+  promptTemplate: PromptTemplate;
+  // Language the task answers in, when it is not the output file's
+  language?: string;
+  // Reads the task's input fields from a worksheet row, or null when the row can't be annotated
+  readInput: (row: ExcelJS.Row) => Omit<Input, 'id'> | null;
+  // Checks a record against the row it answers once the response arrives, e.g.
+  // that quoted evidence is in the text. Returns the checked record, or why it
+  // is rejected, which leaves the row missing.
+  checkRecord?: (input: Input, record: Output) => Output | string;
+  buildPrompt: (params: TaskPromptParams<Input>) => string;
+  columns: TaskColumn<Output>[];
+  // Independent answers requested per row; only used when combineSamples is set
+  samples?: number;
+  // Merges the answers a row received, one per sample that answered it
+  combineSamples?: (samples: Output[]) => Output;
+  settings?: (model: LanguageModel) => { temperature?: number };
+}
+
+export interface TaskResult<Output extends BatchRecord = BatchRecord> {
+  // One record per answered row, combined across samples
+  records: Output[];
+  // Records of each sample, in sample order
+  samples: Output[][];
+}
@@ -2,8 +2,52 @@ export const BATCH_SIZE = 100;
 export const MAX_RETRIES = 3;
 export const RETRY_DELAY_MS = 2000;
 
+// Source files (<target>_train.xlsx, <target>_test.xlsx) are read from here
+export const DEFAULT_INPUT_DIR = './train_test';
+// Processed files are looked up here, in a directory per model or directly in it
+export const DEFAULT_DATASET_DIR = './dataset';
+
 export const cleanTsvOutput = (text: string): string => {
-  return text.replace(/^```tsv\s*\n?/, '').replace(/\n?```\s*$/, '').trim();
+  return text.trim().replace(/^```[\w-]*\s*\n?/, '').replace(/\n?```\s*$/, '').trim();
+};
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rough estimate (about 4 characters per token) used for rate limiting
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+export const parsePositiveInt = (value: string | undefined, optionName: string): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    console.error(`❌ Invalid value for --${optionName}: ${value} (expected a positive integer)`);
+    process.exit(1);
+  }
+  return parsed;
+};
+
+export const parseNonNegativeInt = (value: string | undefined, optionName: string): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    console.error(`❌ Invalid value for --${optionName}: ${value} (expected 0 or a positive integer)`);
+    process.exit(1);
+  }
+  return parsed;
 };
 
-export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
\ No newline at end of file
+export const parsePositiveNumber = (value: string | undefined, optionName: string): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    console.error(`❌ Invalid value for --${optionName}: ${value} (expected a positive number)`);
+    process.exit(1);
+  }
+  return parsed;
+};
@@ -0,0 +1,85 @@
+export interface LabelDefinition {
+  // Label as written by the model and in the workbook
+  name: string;
+  // "{target}" is replaced with the target of the dataset
+  definition: string;
+  guidelines: string[];
+}
+
+export interface LabelSet {
+  name: string;
+  description: string;
+  labels: LabelDefinition[];
+}
+
+const FOR: LabelDefinition = {
+  name: "for",
+  definition: "A tweet is labeled \"for\" if it expresses a positive sentiment, support, agreement, or endorsement of {target}. This can be through direct praise, highlighting benefits, or defending {target} against criticism.",
+  guidelines: [
+    "Positive sentiment, support, or endorsement of {target}",
+    "Agreement with policies, actions, or statements of {target}",
+    "Praise, admiration, or celebration of {target}",
+    "Defense of {target} against criticism",
+    "Expressions of hope, satisfaction, or gratitude related to {target}"
+  ]
+};
+
+const AGAINST: LabelDefinition = {
+  name: "against",
+  definition: "A tweet is labeled \"against\" if it expresses a negative sentiment, criticism, opposition, or disagreement with {target}. This can be a direct attack, an expression of disapproval, or the highlighting of negative consequences or aspects related to {target}.",
+  guidelines: [
+    "Negative sentiment, criticism, or opposition towards {target}",
+    "Disagreement with policies, actions, or statements related to {target}",
+    "Mocking, sarcasm, or ridicule directed at {target}",
+    "Expressions of disappointment, anger, or frustration about {target}",
+    "Calls for removal, replacement, or cessation of {target}"
+  ]
+};
+
+const NEUTRAL: LabelDefinition = {
+  name: "neutral",
+  definition: "A tweet is labeled \"neutral\" if it is about {target} but takes no side: it reports facts, asks questions, or weighs both sides without a dominant stance.",
+  guidelines: [
+    "News or factual statements about {target} without evaluation",
+    "Genuine questions or requests for information about {target}",
+    "Balanced views where neither support nor opposition dominates",
+    "Mentions of {target} where the author's position cannot be determined"
+  ]
+};
+
+const UNRELATED: LabelDefinition = {
+  name: "unrelated",
+  definition: "A tweet is labeled \"unrelated\" if it is not about {target} at all, even if it contains the same name or keyword.",
+  guidelines: [
+    "The name or keyword refers to something other than {target}",
+    "{target} only appears in a hashtag or list with no content about it",
+    "Spam, advertising, or content about a different subject"
+  ]
+};
+
+export const LABEL_SETS: Record<string, LabelSet> = {
+  stance: {
+    name: "stance",
+    description: "Binary stance towards the target",
+    labels: [FOR, AGAINST]
+  },
+  "stance-extended": {
+    name: "stance-extended",
+    description: "Stance towards the target, with neutral and off-topic tweets",
+    labels: [FOR, AGAINST, NEUTRAL, UNRELATED]
+  }
+};
+
+export const DEFAULT_LABEL_SET = "stance";
+
+export const getLabelSet = (name: string): LabelSet => {
+  const labelSet = LABEL_SETS[name];
+  if (!labelSet) {
+    throw new Error(`Unknown label set: ${name}`);
+  }
+  return labelSet;
+};
+
+export const getLabelNames = (labelSet: LabelSet): string[] => {
+  return labelSet.labels.map(label => label.name);
+};
@@ -0,0 +1,33 @@
+export interface Language {
+  // As written in the prompts ("Return the explanation in portuguese.")
+  name: string;
+  // ISO 639-1 code, used in file names, column headers and prompt template variants
+  code: string;
+}
+
+// Extra explanation and evidence columns are numbered in this order (see src/tasks/columns.ts),
+// so new languages go at the end
+export const LANGUAGES: Record<string, Language> = {
+  portuguese: { name: "portuguese", code: "pt" },
+  english: { name: "english", code: "en" },
+  spanish: { name: "spanish", code: "es" },
+  french: { name: "french", code: "fr" },
+  german: { name: "german", code: "de" },
+  italian: { name: "italian", code: "it" }
+};
+
+export const DEFAULT_LANGUAGE = "portuguese";
+
+// Accepts the name or the code
+export const findLanguage = (value: string): Language | undefined => {
+  const lowerCased = value.toLowerCase();
+  return Object.values(LANGUAGES).find(language => language.name === lowerCased || language.code === lowerCased);
+};
+
+export const getLanguage = (value: string): Language => {
+  const language = findLanguage(value);
+  if (!language) {
+    throw new Error(`Unknown language: ${value} (expected one of ${Object.keys(LANGUAGES).join(', ')})`);
+  }
+  return language;
+};
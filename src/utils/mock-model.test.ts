@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+import { APICallError, type JSONSchema7 } from "ai";
+import { createMockModel, loadMockScript } from "./mock-model";
+
+const tsvPrompt = "Tweets:\n2\tprimeiro tweet\n3\tsegundo tweet\n\nExample Output Format:\nid\tlabel\tconfidence\texplanation";
+
+const generate = async (script: object, prompt: string, schema?: JSONSchema7) => {
+  const model = createMockModel(loadMockScript(JSON.stringify(script)));
+  const result = await model.doGenerate({
+    prompt: [{ role: "user", content: [{ type: "text", text: prompt }] }],
+    ...(schema && { responseFormat: { type: "json" as const, schema } })
+  });
+  return { ...result, text: result.content.map(part => part.type === "text" ? part.text : "").join("") };
+};
+
+describe("loadMockScript", () => {
+  test("fills in the defaults", () => {
+    expect(loadMockScript("{}")).toMatchObject({ labels: ["for", "against"], confidence: 0.8, failFirst: 0 });
+  });
+
+  test("rejects invalid scripts", () => {
+    expect(() => loadMockScript('{"failFirst": -1}')).toThrow("Invalid mock model script: failFirst");
+  });
+});
+
+describe("createMockModel", () => {
+  test("answers TSV prompts with the fields of the example output header", async () => {
+    const { text, finishReason } = await generate({}, tsvPrompt);
+    expect(text).toBe([
+      "2\tfor\t0.8\tMock explanation for row 2 (for).",
+      "3\tagainst\t0.8\tMock explanation for row 3 (against)."
+    ].join("\n"));
+    expect(finishReason).toBe("stop");
+  });
+
+  test("answers structured prompts with the fields of the response schema", async () => {
+    const schema: JSONSchema7 = {
+      type: "object",
+      properties: { results: { type: "array", items: { type: "object", properties: { id: {}, label: {} } } } }
+    };
+    const prompt = '{"id": 4, "text": "um tweet", "label": "against"}';
+    const { text } = await generate({ label: "for" }, prompt, schema);
+    // Rows that come with a label get it back
+    expect(JSON.parse(text)).toEqual({ results: [{ id: 4, label: "against" }] });
+  });
+
+  test("leaves out and mangles the scripted rows", async () => {
+    const { text } = await generate({ omitIds: [2], malformedIds: [3] }, tsvPrompt);
+    expect(text).toBe("3\tmalformed");
+  });
+
+  test("fails and truncates the first calls", async () => {
+    const model = createMockModel(loadMockScript('{"failFirst": 1, "truncateFirst": 2, "failStatus": 429}'));
+    const call = () => model.doGenerate({ prompt: [{ role: "user", content: [{ type: "text", text: tsvPrompt }] }] });
+
+    const error = await Promise.resolve(call()).catch((error: unknown) => error);
+    expect(APICallError.isInstance(error) && error.statusCode).toBe(429);
+    expect((await call()).finishReason).toBe("length");
+    expect((await call()).finishReason).toBe("stop");
+  });
+});
@@ -0,0 +1,209 @@
+import fs from "fs";
+import { APICallError, type LanguageModel } from "ai";
+import { z } from "zod";
+import { estimateTokens } from "./common";
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<LanguageModelV2['doGenerate']>[0];
+
+// What the mock answers, set with MOCK_MODEL_SCRIPT (inline JSON or a path to a
+// JSON file). Calls are counted from 1 per model instance.
+const mockScriptSchema = z.object({
+  // Label given to every row; without it rows cycle through `labels` by id.
+  // Rows that come with a label (explanations) always get that label back.
+  label: z.string().optional(),
+  labels: z.array(z.string()).min(1).default(["for", "against"]),
+  // "{id}" and "{label}" are replaced with the row's id and label
+  explanation: z.string().default("Mock explanation for row {id} ({label})."),
+  confidence: z.number().min(0).max(1).default(0.8),
+  // Milliseconds to wait before each response
+  delayMs: z.number().int().min(0).default(0),
+  // The first N calls fail with failStatus
+  failFirst: z.number().int().min(0).default(0),
+  // Calls that contain one of these rows always fail with failStatus
+  failIds: z.array(z.number().int()).default([]),
+  failStatus: z.number().int().default(503),
+  // The first N responses stop halfway through, as if they hit the output limit
+  truncateFirst: z.number().int().min(0).default(0),
+  // Rows that are never answered
+  omitIds: z.array(z.number().int()).default([]),
+  // Rows answered with a line or record that does not match the format
+  malformedIds: z.array(z.number().int()).default([]),
+  // Rows whose evidence quotes words that are not in the tweet
+  hallucinateIds: z.array(z.number().int()).default([])
+});
+
+export type MockScript = z.infer<typeof mockScriptSchema>;
+
+export const loadMockScript = (source = process.env.MOCK_MODEL_SCRIPT): MockScript => {
+  if (!source) {
+    return mockScriptSchema.parse({});
+  }
+  const json = source.trim().startsWith("{") ? source : fs.readFileSync(source, "utf-8");
+  const result = mockScriptSchema.safeParse(JSON.parse(json));
+  if (!result.success) {
+    throw new Error(`Invalid mock model script: ${result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+  }
+  return result.data;
+};
+
+interface PromptRow {
+  id: number;
+  text: string;
+  label?: string;
+}
+
+const getPromptText = (options: CallOptions): string => {
+  return options.prompt
+    .map(message => typeof message.content === 'string'
+      ? message.content
+      : message.content.map(part => part.type === 'text' ? part.text : '').join("\n"))
+    .join("\n");
+};
+
+// Input rows are the prompt lines that carry an id: JSON lines in structured
+// mode, "id[TAB]text[TAB]label" lines in TSV mode. Examples have no id.
+const readPromptRows = (prompt: string, structured: boolean): PromptRow[] => {
+  const rows: PromptRow[] = [];
+  for (const line of prompt.split("\n")) {
+    if (structured && line.startsWith("{")) {
+      try {
+        const { id, text, label } = JSON.parse(line);
+        if (Number.isInteger(id)) {
+          rows.push({ id, text: String(text ?? ""), label });
+        }
+      } catch {
+        // Not a row
+      }
+    } else if (!structured && /^\d+\t/.test(line)) {
+      const fields = line.split("\t");
+      rows.push({ id: Number(fields[0]), text: fields[1], label: fields[2] });
+    }
+  }
+  return rows;
+};
+
+const DEFAULT_OUTPUT_FIELDS = ["id", "label", "explanation"];
+
+// The part of the response JSON schema that lists the fields of a record
+const responseSchemaFields = z.object({
+  properties: z.object({
+    results: z.object({ items: z.object({ properties: z.record(z.unknown()) }) })
+  })
+});
+
+// Output fields come from the JSON schema in structured mode and from the
+// "Example Output Format" header line in TSV mode
+const getOutputFields = (options: CallOptions, prompt: string): string[] => {
+  if (options.responseFormat?.type === 'json') {
+    const parsed = responseSchemaFields.safeParse(options.responseFormat.schema);
+    return parsed.success ? Object.keys(parsed.data.properties.results.items.properties) : DEFAULT_OUTPUT_FIELDS;
+  }
+  return prompt.split("\n").find(line => line.startsWith("id\t"))?.split("\t") ?? DEFAULT_OUTPUT_FIELDS;
+};
+
+// Quotes the first word of the tweet, or a word it doesn't have
+const toEvidence = (row: PromptRow, script: MockScript) => {
+  const quote = script.hallucinateIds.includes(row.id) ? "mockquote" : row.text.split(" ")[0];
+  return quote ? [{ quote, start: 0, end: quote.length }] : [];
+};
+
+const toRecord = (row: PromptRow, fields: string[], script: MockScript): Record<string, unknown> => {
+  const label = row.label ?? script.label ?? script.labels[row.id % script.labels.length];
+  const explanation = script.explanation.replaceAll("{id}", String(row.id)).replaceAll("{label}", label);
+  return Object.fromEntries(fields.map(field => {
+    switch (field) {
+      case "id":
+        return [field, row.id];
+      case "label":
+        return [field, label];
+      case "confidence":
+        return [field, script.confidence];
+      case "explanation":
+      case "label_explanation":
+        return [field, explanation];
+      case "evidence":
+        return [field, toEvidence(row, script)];
+      default:
+        return [field, "mock"];
+    }
+  }));
+};
+
+const failCall = (script: MockScript, reason: string): never => {
+  throw new APICallError({
+    message: `Mock model failure: ${reason}`,
+    url: "mock://generate",
+    requestBodyValues: {},
+    statusCode: script.failStatus
+  });
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener("abort", () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+// Answers every batch locally, without network access or API keys, so that
+// checkpoints, retries, splitting and merging can be run end to end
+export const createMockModel = (script: MockScript = loadMockScript()): LanguageModelV2 => {
+  let calls = 0;
+
+  const doGenerate = async (options: CallOptions) => {
+    const call = ++calls;
+    if (script.delayMs > 0) {
+      await wait(script.delayMs, options.abortSignal);
+    }
+
+    const prompt = getPromptText(options);
+    const structured = options.responseFormat?.type === 'json';
+    const rows = readPromptRows(prompt, structured);
+
+    if (call <= script.failFirst) {
+      failCall(script, `call ${call} of the first ${script.failFirst}`);
+    }
+    const failedId = rows.find(row => script.failIds.includes(row.id));
+    if (failedId) {
+      failCall(script, `row ${failedId.id}`);
+    }
+
+    const fields = getOutputFields(options, prompt);
+    const answered = rows.filter(row => !script.omitIds.includes(row.id));
+    const lines = answered.map(row => {
+      const record = toRecord(row, fields, script);
+      if (script.malformedIds.includes(row.id)) {
+        return structured ? JSON.stringify({ id: row.id, label: null }) : `${row.id}\tmalformed`;
+      }
+      return structured ? JSON.stringify(record) : fields.map(field => typeof record[field] === "object" ? JSON.stringify(record[field]) : String(record[field])).join("\t");
+    });
+
+    let text = structured ? `{"results":[${lines.join(",")}]}` : lines.join("\n");
+    const truncated = call <= script.truncateFirst;
+    if (truncated) {
+      text = text.slice(0, Math.floor(text.length / 2));
+    }
+
+    const inputTokens = estimateTokens(prompt);
+    const outputTokens = estimateTokens(text);
+    return {
+      content: [{ type: 'text' as const, text }],
+      finishReason: truncated ? 'length' as const : 'stop' as const,
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+      warnings: []
+    };
+  };
+
+  return {
+    specificationVersion: 'v2',
+    provider: 'mock',
+    modelId: 'mock',
+    supportedUrls: {},
+    doGenerate,
+    doStream: async () => {
+      throw new Error("The mock model does not support streaming");
+    }
+  };
+};
@@ -0,0 +1,21 @@
+import { describe, expect, test } from "bun:test";
+import { findModelConfig, getProcessedFileName, getProcessedFileNames } from "./models";
+
+const config = findModelConfig("gpt-5")!;
+
+describe("getProcessedFileName", () => {
+  test("ends with the language code and the prompt variant", () => {
+    expect(getProcessedFileName(config, "lula", "test", "portuguese")).toBe("processed-gpt-5-lula-test-pt.xlsx");
+    expect(getProcessedFileName(config, "lula", "train", "english", "v2")).toBe("processed-gpt-5-lula-train-en@v2.xlsx");
+  });
+});
+
+describe("getProcessedFileNames", () => {
+  test("falls back to the name without a language code in the default language only", () => {
+    expect(getProcessedFileNames(config, "lula", "test", "portuguese"))
+      .toEqual(["processed-gpt-5-lula-test-pt.xlsx", "processed-gpt-5-lula-test.xlsx"]);
+    expect(getProcessedFileNames(config, "lula", "test", "english")).toEqual(["processed-gpt-5-lula-test-en.xlsx"]);
+    // Variants came after language codes
+    expect(getProcessedFileNames(config, "lula", "test", "portuguese", "v2")).toEqual(["processed-gpt-5-lula-test-pt@v2.xlsx"]);
+  });
+});
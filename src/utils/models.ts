@@ -1,32 +1,189 @@
+import fs from "fs";
 import { google } from "@ai-sdk/google";
-import { openai } from "@ai-sdk/openai";
-
-export type ModelType = "gpt-5" | "gemini-2.0-flash" | "gemini-2.5-pro";
-
-export const getModel = (modelType: ModelType) => {
-  switch (modelType) {
-    case "gpt-5":
-      return openai("gpt-5");
-    case "gemini-2.0-flash":
-      return google("gemini-2.0-flash-001");
-    case "gemini-2.5-pro":
-      return google("gemini-2.5-pro");
-    default:
-      throw new Error(`Unsupported model: ${modelType}`);
+import { createOpenAI, openai } from "@ai-sdk/openai";
+import { defaultSettingsMiddleware, wrapLanguageModel } from "ai";
+import { z } from "zod";
+import { DEFAULT_LANGUAGE, getLanguage } from "./languages";
+import { createMockModel } from "./mock-model";
+
+// Registry of the models every command can use; MODELS_CONFIG points to another file
+export const MODELS_CONFIG_PATH = './config/models.json';
+
+export const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+const modelOptionsSchema = z.object({
+  temperature: z.number().min(0).max(2).optional(),
+  maxOutputTokens: z.number().int().positive().optional(),
+  // Only sent to OpenAI and OpenAI-compatible reasoning models
+  reasoningEffort: z.enum(["minimal", "low", "medium", "high"]).optional()
+}).strict();
+
+// What the model accepts, only used to flag oversized batches in --dry-run
+const modelLimitsSchema = z.object({
+  contextTokens: z.number().int().positive().optional(),
+  outputTokens: z.number().int().positive().optional()
+}).strict();
+
+const modelConfigSchema = z.object({
+  // Value of --model, also used for checkpoints and dataset directories
+  id: z.string().min(1),
+  provider: z.enum(["openai", "google", "openai-compatible", "mock"]),
+  // Name of the model at the provider
+  model: z.string().min(1),
+  displayName: z.string().min(1),
+  // Output files are named processed-{slug}-{target}-{train/test}-{language code}[@{variant}].xlsx
+  slug: z.string().regex(/^[a-z0-9-]+$/, "use lowercase letters, digits and -"),
+  // OpenAI-compatible servers only; default LOCAL_MODEL_BASE_URL
+  baseURL: z.string().url().optional(),
+  // Environment variable with the API key (OpenAI-compatible servers only);
+  // default LOCAL_MODEL_API_KEY
+  apiKeyEnv: z.string().optional(),
+  options: modelOptionsSchema.default({}),
+  limits: modelLimitsSchema.default({})
+}).strict();
+
+export type ModelConfig = z.infer<typeof modelConfigSchema>;
+export type ModelOptions = ModelConfig['options'];
+
+const registrySchema = z.object({ models: z.array(modelConfigSchema).min(1) });
+
+let registry: ModelConfig[] | null = null;
+
+export const loadModelRegistry = (configPath = process.env.MODELS_CONFIG || MODELS_CONFIG_PATH): ModelConfig[] => {
+  if (registry) {
+    return registry;
+  }
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`Model registry not found: ${configPath}`);
   }
+
+  const result = registrySchema.safeParse(JSON.parse(fs.readFileSync(configPath, 'utf-8')));
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid model registry ${configPath}: ${issues}`);
+  }
+
+  for (const key of ['id', 'slug'] as const) {
+    const values = result.data.models.map(model => model[key]);
+    const duplicated = values.find((value, index) => values.indexOf(value) !== index);
+    if (duplicated) {
+      throw new Error(`Invalid model registry ${configPath}: duplicated ${key} "${duplicated}"`);
+    }
+  }
+
+  registry = result.data.models;
+  return registry;
 };
 
-export type LanguageModel = ReturnType<typeof getModel>
+export const getModelIds = (): string[] => loadModelRegistry().map(model => model.id);
+
+// "local:<name>" is any model of the server at LOCAL_MODEL_BASE_URL, without
+// registering it first
+const isLocalModelId = (id: string): boolean => {
+  return id.startsWith("local:") && id.length > "local:".length;
+};
+
+const getLocalModelConfig = (id: string): ModelConfig => {
+  const name = id.slice("local:".length);
+  // "local:meta-llama/Llama-3.1-8B" -> "Local-meta-llama-Llama-3.1-8B"
+  const displayName = `Local-${name.replace(/[^A-Za-z0-9.-]+/g, '-')}`;
+  return {
+    id,
+    provider: "openai-compatible",
+    model: name,
+    displayName,
+    slug: displayName.toLowerCase().replace(/[^a-z0-9-]+/g, '-'),
+    options: {},
+    limits: {}
+  };
+};
 
-export const getModelDisplayName = (modelType: ModelType): string => {
-  switch (modelType) {
-    case "gpt-5":
-      return "GPT-5";
-    case "gemini-2.0-flash":
-      return "Gemini-2.0-Flash";
-    case "gemini-2.5-pro":
-      return "Gemini-2.5-Pro";
-    default:
-      return modelType;
+// Returns undefined for ids that are neither registered nor "local:<name>"
+export const findModelConfig = (id: string): ModelConfig | undefined => {
+  if (isLocalModelId(id)) {
+    return getLocalModelConfig(id);
   }
-};
\ No newline at end of file
+  return loadModelRegistry().find(model => model.id === id);
+};
+
+export const findModelConfigBySlug = (slug: string): ModelConfig | undefined => {
+  return loadModelRegistry().find(model => model.slug === slug);
+};
+
+const createProviderModel = (config: ModelConfig) => {
+  switch (config.provider) {
+    case "openai":
+      return openai(config.model);
+    case "google":
+      return google(config.model);
+    case "openai-compatible":
+      return createOpenAI({
+        name: "local",
+        baseURL: config.baseURL || process.env.LOCAL_MODEL_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+        // Most local servers ignore the key, but the client always sends one
+        apiKey: process.env[config.apiKeyEnv ?? "LOCAL_MODEL_API_KEY"] || "local"
+      }).chat(config.model);
+    case "mock":
+      return createMockModel();
+  }
+};
+
+// The model with the registry's generation options as defaults; options a task
+// sets on a request take precedence
+export const getModel = (config: ModelConfig) => {
+  const { temperature, maxOutputTokens, reasoningEffort } = config.options;
+  return wrapLanguageModel({
+    model: createProviderModel(config),
+    middleware: defaultSettingsMiddleware({
+      settings: {
+        temperature,
+        maxOutputTokens,
+        providerOptions: reasoningEffort ? { openai: { reasoningEffort } } : undefined
+      }
+    })
+  });
+};
+
+export type LanguageModel = ReturnType<typeof getModel>
+
+// "openai.responses" -> "openai", "google.generative-ai" -> "google"
+export const getProviderName = (model: LanguageModel): string => {
+  return model.provider.split('.')[0];
+};
+
+// "processed-gpt-5-lula-test-pt.xlsx", or "processed-gpt-5-lula-test-pt@v2.xlsx" for
+// the v2 prompt variant of an experiment
+export const getProcessedFileName = (
+  config: ModelConfig,
+  target: string,
+  split: 'train' | 'test',
+  language: string,
+  variant?: string
+): string => {
+  return `processed-${config.slug}-${target}-${split}-${getLanguage(language).code}${variant ? `@${variant}` : ''}.xlsx`;
+};
+
+// The names a processed file may have, current one first: files written before
+// languages could be chosen have no language code, and are in the default language
+export const getProcessedFileNames = (
+  config: ModelConfig,
+  target: string,
+  split: 'train' | 'test',
+  language: string,
+  variant?: string
+): string[] => {
+  const fileName = getProcessedFileName(config, target, split, language, variant);
+  return getLanguage(language).name === DEFAULT_LANGUAGE && !variant
+    ? [fileName, `processed-${config.slug}-${target}-${split}.xlsx`]
+    : [fileName];
+};
+
+// "gpt-5@v2": how runs of a prompt variant are told apart in logs and reports
+export const formatModelVariant = (model: string, variant?: string): string => {
+  return variant ? `${model}@${variant}` : model;
+};
+
+// Directory of a model's processed files under dataset/
+export const getModelDirectory = (config: ModelConfig): string => {
+  return config.id.replace(/[^A-Za-z0-9.-]+/g, '-');
+};
@@ -0,0 +1,30 @@
+export interface ModelPrice {
+  // USD per million tokens
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// Standard (non-batch) list prices. Reasoning tokens are billed as output.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-5": { inputPerMillion: 1.25, outputPerMillion: 10 },
+  "gemini-2.0-flash": { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+  "gemini-2.5-pro": { inputPerMillion: 1.25, outputPerMillion: 10 }
+};
+
+// OpenAI and Gemini batch APIs bill input and output at half the list price
+export const BATCH_PRICE_FACTOR = 0.5;
+
+export const estimateCost = (
+  modelType: string,
+  usage: { inputTokens: number; outputTokens: number },
+  batch = false
+): number => {
+  const price = MODEL_PRICES[modelType];
+  if (!price) {
+    return 0;
+  }
+  const cost = (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1_000_000;
+  return batch ? cost * BATCH_PRICE_FACTOR : cost;
+};
+
+export const formatCost = (cost: number): string => `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
@@ -0,0 +1,62 @@
+import fs from "fs";
+import { z } from "zod";
+
+// Catalog of the targets every command can use; TARGETS_CONFIG points to another file
+export const TARGETS_CONFIG_PATH = './config/targets.json';
+
+const targetSchema = z.object({
+  // Value of --targets, also used in input, output and checkpoint file names
+  id: z.string().regex(/^[a-z0-9-]+$/, "use lowercase letters, digits and -"),
+  displayName: z.string().min(1),
+  // What the target is, for a model that doesn't know the slug
+  description: z.string().min(1),
+  // Other ways tweets refer to it
+  aliases: z.array(z.string().min(1)).default([]),
+  hashtags: z.array(z.string().regex(/^#\S+$/, "start with # and have no spaces")).default([]),
+  // Rules of this target on top of the label guidelines, e.g. how praise for a rival counts
+  guidelines: z.array(z.string().min(1)).default([])
+}).strict();
+
+export type Target = z.infer<typeof targetSchema>;
+
+const catalogSchema = z.object({ targets: z.array(targetSchema).min(1) });
+
+let catalog: Target[] | null = null;
+
+export const loadTargetCatalog = (configPath = process.env.TARGETS_CONFIG || TARGETS_CONFIG_PATH): Target[] => {
+  if (catalog) {
+    return catalog;
+  }
+  if (!fs.existsSync(configPath)) {
+    throw new Error(`Target catalog not found: ${configPath}`);
+  }
+
+  const result = catalogSchema.safeParse(JSON.parse(fs.readFileSync(configPath, 'utf-8')));
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid target catalog ${configPath}: ${issues}`);
+  }
+
+  const ids = result.data.targets.map(target => target.id);
+  const duplicated = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicated) {
+    throw new Error(`Invalid target catalog ${configPath}: duplicated id "${duplicated}"`);
+  }
+
+  catalog = result.data.targets;
+  return catalog;
+};
+
+export const getTargetIds = (): string[] => loadTargetCatalog().map(target => target.id);
+
+export const findTarget = (id: string): Target | undefined => {
+  return loadTargetCatalog().find(target => target.id === id);
+};
+
+export const getTarget = (id: string): Target => {
+  const target = findTarget(id);
+  if (!target) {
+    throw new Error(`Unknown target: ${id} (expected one of ${getTargetIds().join(', ')})`);
+  }
+  return target;
+};
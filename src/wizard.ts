@@ -0,0 +1,237 @@
+import { cancel, confirm, intro, isCancel, log, multiselect, note, outro, select, spinner } from "@clack/prompts";
+import { setBatchProgressListener, type BatchProgress } from "./services/batch-processor";
+import { deleteCheckpoint, findUnversionedCheckpoint, getCheckpointPath, isWrittenWithTemplate, loadCheckpoint } from "./services/checkpoint";
+import { formatResumeCommand, isShuttingDown } from "./services/shutdown";
+import { getTotalCost, printUsageSummary } from "./services/usage";
+import { getAnnotationTasks, type AnnotationTask } from "./tasks";
+import { DEFAULT_LANGUAGE, LANGUAGES } from "./utils/languages";
+import { formatCost } from "./utils/pricing";
+import { getTargetIds, loadTargetCatalog } from "./utils/targets";
+import { loadModelRegistry } from "./utils/models";
+
+const SPLITS = ['train', 'test'] as const;
+const PROGRESS_BAR_WIDTH = 20;
+
+interface StepCheckpoint {
+  model: string;
+  target: string;
+  split: 'train' | 'test';
+  step: string;
+  path: string;
+  completed: number;
+  total: number;
+}
+
+// Exits on Ctrl+C or Escape, like the rest of the prompts
+const answer = <T>(value: T | symbol): T => {
+  if (isCancel(value)) {
+    cancel('Cancelled, nothing was run');
+    process.exit(0);
+  }
+  return value;
+};
+
+// The checkpoints the run would resume, named after the task's prompt version or
+// from before versions were part of the name and written with the same template
+const findCheckpoints = (
+  models: string[],
+  targets: string[],
+  splits: ('train' | 'test')[],
+  tasks: AnnotationTask<any, any>[],
+  language: string
+): StepCheckpoint[] => {
+  const found: StepCheckpoint[] = [];
+  for (const model of models) {
+    for (const target of targets) {
+      for (const split of splits) {
+        for (const task of tasks) {
+          const promptVersion = task.promptTemplate.id.split('/')[0];
+          const path = getCheckpointPath(model, target, task.name, split === 'train', language, { promptVersion });
+          const current = loadCheckpoint(path);
+          const unversioned = current ? null : findUnversionedCheckpoint(model, target, task.name, split === 'train', language);
+          const checkpoint = current
+            ?? (unversioned && isWrittenWithTemplate(unversioned.checkpoint, task.promptTemplate, task.name) ? unversioned.checkpoint : null);
+          if (checkpoint) {
+            found.push({
+              model,
+              target,
+              split,
+              step: task.name,
+              path: current ? path : unversioned!.path,
+              completed: checkpoint.processedBatches.length,
+              total: checkpoint.totalBatches
+            });
+          }
+        }
+      }
+    }
+  }
+  return found;
+};
+
+const formatProgressBar = (completed: number, total: number): string => {
+  const filled = total > 0 ? Math.round((completed / total) * PROGRESS_BAR_WIDTH) : 0;
+  return `${'█'.repeat(filled)}${'░'.repeat(PROGRESS_BAR_WIDTH - filled)}`;
+};
+
+const formatProgress = ({ target, split, step, completed, failed, total }: BatchProgress): string => {
+  const failures = failed > 0 ? `, ${failed} failed` : '';
+  return `${target} ${split} · ${step} ${formatProgressBar(completed, total)} ${completed}/${total} batches${failures}`;
+};
+
+// The detailed log would tear the spinner apart, so while a model runs it is
+// held back; warnings and errors are shown once its spinner stops
+const captureConsole = () => {
+  const original = { log: console.log, info: console.info, warn: console.warn, error: console.error };
+  const problems: string[] = [];
+  console.log = () => {};
+  console.info = () => {};
+  console.warn = (...args: unknown[]) => problems.push(args.join(' ').trim());
+  console.error = (...args: unknown[]) => problems.push(args.join(' ').trim());
+  return {
+    // Returns what was held back since the last call
+    takeProblems: () => problems.splice(0),
+    restore: () => Object.assign(console, original)
+  };
+};
+
+const showProblems = (problems: string[]) => {
+  const unique = [...new Set(problems)];
+  unique.slice(0, 10).forEach(problem => log.warn(problem));
+  if (unique.length > 10) {
+    log.warn(`... and ${unique.length - 10} more (see the audit log for every call)`);
+  }
+};
+
+// Asks what to run and calls the process command once per chosen model, with
+// a spinner and progress bar per target and split
+export const runWizard = async (run: (args: string[]) => Promise<void>) => {
+  intro('label-explainer');
+
+  const registry = loadModelRegistry();
+  const tasks = getAnnotationTasks();
+
+  const models = answer(await multiselect({
+    message: 'Models',
+    options: registry.map(model => ({ value: model.id, label: model.displayName, hint: model.provider })),
+    initialValues: ['gemini-2.0-flash'],
+    required: true
+  }));
+  const targets = answer(await multiselect({
+    message: 'Targets',
+    options: loadTargetCatalog().map(target => ({ value: target.id, label: target.id, hint: target.displayName })),
+    initialValues: getTargetIds(),
+    required: true
+  }));
+  const splits = answer(await multiselect({
+    message: 'Splits',
+    options: SPLITS.map(split => ({ value: split, label: split })),
+    initialValues: [...SPLITS],
+    required: true
+  }));
+  const steps = answer(await multiselect({
+    message: 'Steps',
+    options: tasks.map(task => ({ value: task.name, label: task.name, hint: task.description })),
+    initialValues: tasks.map(task => task.name),
+    required: true
+  }));
+
+  const language = answer(await select({
+    message: 'Language of the explanations',
+    options: Object.values(LANGUAGES).map(({ name, code }) => ({ value: name, label: name, hint: code })),
+    initialValue: DEFAULT_LANGUAGE
+  }));
+
+  const checkpoints = findCheckpoints(models, targets, splits, tasks.filter(task => steps.includes(task.name)), language);
+  let restart = false;
+  if (checkpoints.length > 0) {
+    note(
+      checkpoints.map(({ model, target, split, step, completed, total }) =>
+        `${model.padEnd(18)} ${target.padEnd(11)} ${split.padEnd(6)} ${step.padEnd(10)} ${formatProgressBar(completed, total)} ${completed}/${total} (${total > 0 ? Math.round((completed / total) * 100) : 0}%)`
+      ).join('\n'),
+      'Existing checkpoints'
+    );
+    restart = answer(await select({
+      message: 'Checkpoints',
+      options: [
+        { value: false, label: 'Resume', hint: 'only send unfinished batches' },
+        { value: true, label: 'Restart', hint: `delete these ${checkpoints.length} checkpoints and start over` }
+      ]
+    }));
+  } else {
+    log.info('No checkpoints yet for this selection');
+  }
+
+  const confirmed = answer(await confirm({
+    message: `Run ${steps.join(', ')} on ${targets.length} target(s) and ${splits.join('/')} in ${language} with ${models.join(', ')}?`
+  }));
+  if (!confirmed) {
+    cancel('Nothing was run');
+    return;
+  }
+
+  if (restart) {
+    checkpoints.forEach(checkpoint => deleteCheckpoint(checkpoint.path));
+    log.step(`Deleted ${checkpoints.length} checkpoints`);
+  }
+
+  for (const model of models) {
+    const progress = spinner();
+    let current: BatchProgress | undefined;
+    const captured = captureConsole();
+
+    // One spinner per target and split, updated after each batch
+    setBatchProgressListener(update => {
+      if (current && (current.target !== update.target || current.split !== update.split)) {
+        progress.stop(formatProgress(current));
+        showProblems(captured.takeProblems());
+        current = undefined;
+      }
+      if (!current) {
+        progress.start(formatProgress(update));
+        // The spinner reads Ctrl+C as a key and exits on the spot; in cooked mode
+        // it is a SIGINT again, which lets the run save what is in flight
+        if (process.stdin.isTTY) {
+          process.stdin.setRawMode(false);
+        }
+      } else {
+        progress.message(formatProgress(update));
+      }
+      current = update;
+    });
+
+    const args = [
+      '--model', model,
+      ...targets.flatMap(target => ['--targets', target]),
+      ...splits.flatMap(split => ['--splits', split]),
+      ...steps.flatMap(step => ['--steps', step]),
+      '--language', language
+    ];
+    try {
+      await run(args);
+      if (current) {
+        progress.stop(formatProgress(current));
+      }
+      showProblems(captured.takeProblems());
+      if (isShuttingDown()) {
+        const remaining = models.slice(models.indexOf(model) + 1);
+        log.warn(`${model} interrupted${remaining.length > 0 ? `, ${remaining.join(', ')} not run` : ''}`);
+        note(formatResumeCommand('bun run process --', args), 'Resume with');
+        break;
+      }
+      log.success(`${model} done`);
+    } catch (error: any) {
+      if (current) {
+        progress.stop(formatProgress(current), 1);
+      }
+      showProblems(captured.takeProblems());
+      log.error(`${model} failed: ${error.message || error}`);
+    } finally {
+      setBatchProgressListener(undefined);
+      captured.restore();
+    }
+  }
+
+  printUsageSummary();
+  outro(`${isShuttingDown() ? 'Interrupted' : 'Finished'}, estimated cost ${formatCost(getTotalCost())}`);
+};